@@ -14,44 +14,119 @@
 
 import { userInfo, hostname } from 'os';
 import { EventEmitter } from 'events';
-import { promises as fs } from 'fs';
-import { createConnection, Socket } from 'net';
+import { createConnection, Socket, NetConnectOpts } from 'net';
 
-import { PulseError } from './error';
-import { Props } from './props';
+import { PulseError, PA_ERR } from './error';
+import { Props, FlatProps, deflate, inflate } from './props';
 import { PlaybackStream, RecordStream, UploadStream } from './stream';
 import { MemoryBlock, PA_TAG, PA_STREAM_DESCRIPTOR, PA_STREAM_DESCRIPTOR_SIZE } from './packet';
-import { Command, PA_COMMAND } from './command';
-import { SubscribeEvent, StreamEvent, PA_SUBSCRIPTION_MASK } from './event';
-import { logger, PA_NATIVE_PROTOCOL_VERSION, PA_NO_VALUE, PA_NO_INDEX, PA_DEFAULT_SINK, PA_DEFAULT_SOURCE, PA_NO_TAG, cookieFile, defaultSockPath } from './defs';
+import { Command, ErrorReply, PA_COMMAND } from './command';
+import { SubscribeEvent, StreamEvent, ExtensionEvent, ClientEvent, PA_SUBSCRIPTION_MASK } from './event';
+import { Extension, StreamRestore, DeviceManager, DeviceRestore } from './extension';
+import { logger, PA_NATIVE_PROTOCOL_VERSION, PA_MIN_PROTOCOL_VERSION, PA_NO_VALUE, PA_NO_INDEX, PA_DEFAULT_SINK, PA_DEFAULT_SOURCE, PA_NO_TAG, PA_PORT_AVAILABLE, PA_NATIVE_DEFAULT_PORT } from './defs';
+import { loadClientConf, loadCookie, resolveServers, stripMachinePrefix, machineId } from './config';
 import * as Cmd from './command';
+import { MessageValue } from './message';
 
 const debug = logger.extend('client');
 
 
-const machineId = async () => (await fs.readFile('/etc/machine-id', 'ascii')).trim();
+function connect(sock: Socket, { signal, timeout }: RequestOptions = {}) {
+    return new Promise((resolve, reject) => {
+        let timer: NodeJS.Timeout | undefined;
 
+        const cleanup = () => {
+            if (timer) clearTimeout(timer);
+            if (signal) signal.removeEventListener('abort', onAbort);
+            sock.off('connect', onConnect);
+            sock.off('close', onError);
+            sock.off('error', onError);
+        }
 
-function connect(sock: Socket) {
-    return new Promise((resolve, reject) => {
         const onError = (error: Error) => {
-            sock.off('connect', onConnect);
+            cleanup();
             reject(error);
         }
 
         const onConnect:(...args: any[]) => void = () => {
-            sock.off('close', onError);
-            sock.off('error', onError);
+            cleanup();
             resolve(sock);
         }
 
+        const onAbort = () => onError(abortError());
+
         sock.once('connect', onConnect);
         sock.once('error', onError);
         sock.once('close', onError);
+        if (signal) signal.addEventListener('abort', onAbort);
+        if (timeout) timer = setTimeout(() => onError(new PulseError(PA_ERR.TIMEOUT)), timeout);
     });
 }
 
 
+// Convert a PulseAudio server address into socket connection options. The
+// following formats are supported:
+//
+//   /path/to/socket, unix:/path/to/socket  - UNIX domain socket
+//   tcp:host[:port]                        - TCP over IPv4 or IPv6
+//   tcp4:host[:port]                       - TCP over IPv4
+//   tcp6:host[:port], tcp6:[addr][:port]   - TCP over IPv6
+//   host[:port]                            - Same as tcp:host[:port]
+//
+// If the port is omitted, the default port 4713 is used. Must match
+// pa_parse_address in pulsecore/parseaddr.c
+export function parseServerAddress(address: string): NetConnectOpts {
+    if (typeof address !== 'string' || !address.length)
+        throw new Error('Invalid PulseAudio server address');
+
+    if (address.startsWith('/')) return { path: address };
+    if (address.startsWith('unix:')) {
+        const path = address.slice(5);
+        if (!path.length) throw new Error(`Invalid PulseAudio server address '${address}'`);
+        return { path };
+    }
+
+    let rest = address, family: number | undefined;
+    if (address.startsWith('tcp:')) rest = address.slice(4);
+    else if (address.startsWith('tcp4:')) {
+        rest = address.slice(5);
+        family = 4;
+    } else if (address.startsWith('tcp6:')) {
+        rest = address.slice(5);
+        family = 6;
+    }
+
+    let host = rest, port: string | undefined;
+    if (rest.startsWith('[')) {
+        const end = rest.indexOf(']');
+        if (end === -1) throw new Error(`Invalid PulseAudio server address '${address}'`);
+        host = rest.slice(1, end);
+        if (rest.length > end + 1) {
+            if (rest[end + 1] !== ':') throw new Error(`Invalid PulseAudio server address '${address}'`);
+            port = rest.slice(end + 2);
+        }
+    } else {
+        // Bare IPv6 addresses contain more than one colon and cannot carry a port
+        const i = rest.indexOf(':');
+        if (i !== -1 && i === rest.lastIndexOf(':')) {
+            host = rest.slice(0, i);
+            port = rest.slice(i + 1);
+        }
+    }
+
+    if (!host.length) throw new Error(`Invalid PulseAudio server address '${address}'`);
+
+    let p = PA_NATIVE_DEFAULT_PORT;
+    if (port !== undefined) {
+        p = Number(port);
+        if (!/^[0-9]+$/.test(port) || p < 1 || p > 65535)
+            throw new Error(`Invalid port in PulseAudio server address '${address}'`);
+    }
+
+    return family ? { host, port: p, family } : { host, port: p };
+}
+
+
 export async function getDefaultAppProps(appName?:string) {
     const { npm_package_name: appId, npm_package_version: appVersion } = process.env;
 
@@ -78,17 +153,78 @@ export async function getDefaultAppProps(appName?:string) {
 }
 
 
-async function loadCookie() {
-    debug(`Trying to load PulseAudio authentication cookie from '${cookieFile}'`);
-    try {
-        return await fs.readFile(cookieFile);
-    } catch (error) {
-        if ((error as any).code === 'ENOENT') {
-            debug(`PulseAudio cookie file '${cookieFile}' not found`);
-            return undefined;
-        }
-        throw error;
+// Pick the port with the highest priority from the given list of sink, source,
+// or card ports. Ports known to be unavailable (e.g., nothing is plugged into
+// the jack) are skipped, unless there are no other ports to choose from. This
+// mimics pa_device_port_find_best in pulsecore/device-port.c. Returns null if
+// the list is empty.
+export function bestPort<T extends { name: string, priority: number, available: number }>(ports: T[]): T | null {
+    let best: T | null = null;
+
+    for (const p of ports) {
+        if (p.available === PA_PORT_AVAILABLE.NO) continue;
+        if (best === null || p.priority > best.priority) best = p;
+    }
+
+    if (best === null) {
+        for (const p of ports)
+            if (best === null || p.priority > best.priority) best = p;
     }
+
+    return best;
+}
+
+
+export interface ReconnectOptions {
+    initialDelay?    : number;   // Delay before the first reconnect attempt in milliseconds
+    maxDelay?        : number;   // The delay doubles with every failed attempt up to this value
+    maxAttempts?     : number;   // Give up and emit 'error' after this many failed attempts
+    recreateStreams? : boolean;  // Re-create playback and record streams on the new connection
+}
+
+
+export interface ClientOptions {
+    // Reconnect automatically when the connection to the server is lost after
+    // connect has succeeded. Set to true to use the default options.
+    reconnect? : boolean | ReconnectOptions;
+
+    // The default timeout for requests in milliseconds, 0 disables the timeout.
+    // Defaults to 30 seconds like libpulse.
+    timeout? : number;
+
+    // The timeout for draining playback streams in milliseconds, 0 disables
+    // the timeout. Defaults to the request timeout.
+    drainTimeout? : number;
+}
+
+
+// Options accepted by all public methods that send requests to the server. Note
+// that a request that times out or gets aborted may still be carried out by
+// the server. The client only stops waiting for the response.
+export interface RequestOptions {
+    signal?  : AbortSignal;  // Abort the request when the signal fires
+    timeout? : number;       // Override the client's default timeout (milliseconds)
+}
+
+
+const PA_DEFAULT_TIMEOUT = 30000;
+
+// The maximum number of cancelled requests whose late responses are dropped
+// quietly. If the server stops responding altogether, the oldest tags are
+// forgotten so that the list does not grow without bounds.
+const PA_MAX_CANCELLED = 1024;
+
+
+function abortError() {
+    return Object.assign(new Error('The operation was aborted'), { name: 'AbortError', code: 'ABORT_ERR' });
+}
+
+
+const reconnectDefaults: Required<ReconnectOptions> = {
+    initialDelay    : 500,
+    maxDelay        : 30000,
+    maxAttempts     : Infinity,
+    recreateStreams : false
 }
 
 
@@ -102,7 +238,8 @@ export class PulseAudio extends EventEmitter {
     }
     getAppProps     : () => Promise<Props> | Props;
     eventListeners  : number;
-    sockPath        : string;
+    sockPath        : string | undefined;
+    server?         : string;
     cookie          : Buffer | undefined;
     requests        : any;
     packetLength    : number | null;
@@ -113,8 +250,21 @@ export class PulseAudio extends EventEmitter {
         reject  : (reason: Error) => void;
     }
     header          : Buffer | null;
-
-    constructor(appProps?: string | Props | (() => Promise<Props> | Props), cookie?: Buffer, sockPath?: string) {
+    extensions      : { [module: string]: Extension };
+    streamRestore   : StreamRestore;
+    deviceManager   : DeviceManager;
+    deviceRestore   : DeviceRestore;
+    connected       : boolean;
+    clientProps     : FlatProps;
+    subscriptionMask: PA_SUBSCRIPTION_MASK;
+    reconnectOptions?: Required<ReconnectOptions>;
+    _reconnecting?  : { cancel: () => void, done: Promise<void> };
+    _detached       : (PlaybackStream | RecordStream)[];
+    timeout         : number;
+    drainTimeout    : number;
+    cancelled       : { [tag: number]: true };
+
+    constructor(appProps?: string | Props | (() => Promise<Props> | Props), cookie?: Buffer, sockPath?: string, options: ClientOptions = {}) {
         super();
         this.streams = {
             playback : {},
@@ -125,8 +275,31 @@ export class PulseAudio extends EventEmitter {
         this.header = null;
         this.packetLength = null;
         this.eventListeners = 0;
-        this.sockPath = sockPath || defaultSockPath;
+        this.sockPath = sockPath;
         this.cookie = cookie;
+        this.connected = false;
+        this.clientProps = {};
+        this.subscriptionMask = PA_SUBSCRIPTION_MASK.NULL;
+        this._detached = [];
+        this.timeout = options.timeout ?? PA_DEFAULT_TIMEOUT;
+        this.drainTimeout = options.drainTimeout ?? this.timeout;
+        this.cancelled = Object.create(null);
+
+        if (options.reconnect) {
+            this.reconnectOptions = {
+                ...reconnectDefaults,
+                ...(typeof options.reconnect === 'object' ? options.reconnect : {})
+            }
+        }
+
+        this.streamRestore = new StreamRestore(this);
+        this.deviceManager = new DeviceManager(this);
+        this.deviceRestore = new DeviceRestore(this);
+        this.extensions = {
+            [this.streamRestore.module] : this.streamRestore,
+            [this.deviceManager.module] : this.deviceManager,
+            [this.deviceRestore.module] : this.deviceRestore
+        }
 
         if (typeof appProps === 'string' || typeof appProps === 'undefined') {
             // If appProps is a string, use that as the application's name. If
@@ -159,7 +332,7 @@ export class PulseAudio extends EventEmitter {
 
         if (++this.eventListeners === 1) {
             debug(`Subscribing to PulseAudio events`);
-            this._subscribe(PA_SUBSCRIPTION_MASK.ALL);
+            this._subscribe(PA_SUBSCRIPTION_MASK.ALL).catch(this._subscribeFailed);
         }
     }
 
@@ -168,30 +341,108 @@ export class PulseAudio extends EventEmitter {
 
         if (--this.eventListeners === 0) {
             debug(`Unsubscribing from PulseAudio events`);
-            this._subscribe(PA_SUBSCRIPTION_MASK.NULL);
+            this._subscribe(PA_SUBSCRIPTION_MASK.NULL).catch(this._subscribeFailed);
         }
     }
 
-    async connect(clientProps?: Props | (() => Promise<Props> | Props)) {
-        debug(`Connecting to PulseAudio via '${this.sockPath}'`);
+    // Listeners cannot wait for the subscription request, so there is nobody to
+    // report a failure to, e.g., a timeout. The mask has been recorded and will
+    // be applied again after reconnect.
+    _subscribeFailed = (error: Error) => {
+        debug(`Could not update event subscription: ${error.message}`);
+    }
+
+    // Try the servers from the list in order and return the socket connected to
+    // the first server that accepts the connection. A server that does not
+    // accept the connection within the timeout is skipped.
+    async _connectSocket(servers: string[], { signal, timeout = this.timeout }: RequestOptions = {}) {
+        let lastError: Error | undefined;
+
+        for (const server of servers) {
+            const address = await stripMachinePrefix(server);
+            if (address === null) {
+                debug(`Skipping server '${server}' which belongs to another machine`);
+                continue;
+            }
+
+            // Skip malformed entries, see pa_context_connect in pulse/context.c
+            let opts: NetConnectOpts;
+            try {
+                opts = parseServerAddress(address);
+            } catch (error) {
+                debug(`Skipping server '${server}': ${(error as Error).message}`);
+                lastError = error as Error;
+                continue;
+            }
+
+            debug(`Connecting to PulseAudio via '${address}'`);
+            const sock = createConnection(opts);
+            try {
+                await connect(sock, { signal, timeout });
+            } catch (error) {
+                debug(`Could not connect to '${address}': ${(error as Error).message}`);
+                sock.destroy();
+                if ((error as any).code === 'ABORT_ERR') throw error;
+                lastError = error as Error;
+                continue;
+            }
+
+            // Stream data and small control packets should not be delayed by Nagle's
+            // algorithm, see pa_make_tcp_socket_low_delay in pulsecore/socket-util.c
+            if ('port' in opts) sock.setNoDelay(true);
+            this.server = address;
+            return sock;
+        }
+
+        throw lastError || new Error('No PulseAudio server to connect to');
+    }
+
+    // Connect to the server and authenticate. Shared by connect and reconnect.
+    async _open(options: RequestOptions = {}) {
         this.packetLength = null;
         this.header = null;
 
-        this.sock = createConnection(this.sockPath);
+        // The server given to the constructor takes precedence over PULSE_SERVER and
+        // client.conf. The server may also be a space-separated list of servers.
+        const conf = await loadClientConf();
+        this.sock = await this._connectSocket(await resolveServers(this.sockPath, conf), options);
         this.sock.on('readable', this._read);
         this.sock.once('close', this._closed);
         this.sock.once('error', this._closed);
 
-        await connect(this.sock);
-        this.protocol = await this._authenticate(this.cookie || await loadCookie(), PA_NATIVE_PROTOCOL_VERSION);
-        const server = await this.getServerInfo();
-        debug(`Connected to ${server.name} ${server.version} speaking native protocol versions <= ${this.protocol}`);
+        // The server responds with the newest protocol version it implements.
+        // Both sides then use the lower of the two versions, which determines
+        // the format of most requests and responses.
+        const version = await this._authenticate(options, this.cookie || await loadCookie(conf), PA_NATIVE_PROTOCOL_VERSION);
+
+        // Bail early if we are connected to a PulseAudio server too old to be
+        // supported by this client
+        if (version < PA_MIN_PROTOCOL_VERSION)
+            throw new Error(`The client requires native protocol >= ${PA_MIN_PROTOCOL_VERSION}`);
+
+        this.protocol = Math.min(version, PA_NATIVE_PROTOCOL_VERSION);
+        const server = await this.getServerInfo(options);
+        debug(`Connected to ${server.name} ${server.version} speaking native protocol version ${this.protocol}`);
+    }
+
+    // The timeout in options applies to each step of the connection setup
+    // separately, i.e., to the socket connection and to each request.
+    async connect(clientProps?: Props | (() => Promise<Props> | Props), options: RequestOptions = {}) {
+        try {
+            await this._connect(clientProps, options);
+        } catch (error) {
+            // Do not leave a half-open connection behind, e.g., if the server
+            // stopped responding during the handshake
+            if (this.sock) {
+                this._abort(error as Error);
+                this._teardown();
+            }
+            throw error;
+        }
+    }
 
-        // This PulseAudio client currently does not support any older protocol
-        // versions, so bail early if we are connected to an older PulseAudio
-        // server.
-        if (this.protocol < PA_NATIVE_PROTOCOL_VERSION)
-            throw new Error(`The client requires native protocol >= ${PA_NATIVE_PROTOCOL_VERSION}`);
+    async _connect(clientProps: Props | (() => Promise<Props> | Props) | undefined, options: RequestOptions) {
+        await this._open(options);
 
         let props: Props;
 
@@ -203,10 +454,24 @@ export class PulseAudio extends EventEmitter {
             props = await clientProps();
         }
 
-        await this.setClientProperties(props);
+        this.clientProps = {};
+        await this.setClientProperties(props, options);
+
+        // Event listeners may have been added before the connection was established
+        if (this.subscriptionMask !== PA_SUBSCRIPTION_MASK.NULL)
+            await this._subscribe(this.subscriptionMask, options);
+
+        this.connected = true;
     }
 
     async disconnect() {
+        if (this._reconnecting) {
+            // Stop reconnecting. If an attempt is in progress, wait for it to
+            // finish. The attempt then closes the new connection.
+            this._reconnecting.cancel();
+            await this._reconnecting.done;
+        }
+
         if (this._disconnecting) return this._disconnecting;
         if (!this.sock) return undefined;
 
@@ -219,16 +484,26 @@ export class PulseAudio extends EventEmitter {
     _closed() {
         const error = new Error('Disconnected from PulseAudio');
 
-        this._abort(error);
-        this.sock.end();
-        this.sock.off('readable', this._read);
-        this.sock.off('close', this._closed);
-        this.sock.off('error', this._closed);
-        delete this.sock;
+        // Start reconnecting if the connection was fully established and the user
+        // did not ask to disconnect. If the connection gets lost while a
+        // reconnect attempt is in progress, the attempt fails and the reconnect
+        // loop tries again.
+        const reconnect = this.reconnectOptions !== undefined && !this._disconnecting
+            && (this.connected || this._reconnecting !== undefined);
+
+        this._abort(error, reconnect && this.reconnectOptions!.recreateStreams);
+        this._teardown();
+        const connected = this.connected;
+        this.connected = false;
 
         if (this._disconnecting) {
             this._disconnecting.resolve();
             delete this._disconnecting;
+        } else if (reconnect) {
+            // Failures are reported via the 'error' event. If emitting it throws,
+            // e.g., because there is no listener, rethrow outside of the promise
+            // chain, just like an error emitted from a socket event handler.
+            if (connected) this._reconnect().catch(e => process.nextTick(() => { throw e; }));
         } else {
             // If we were not asked by the user to disconnect from PulseAudio, emit an
             // error event to bring down the application
@@ -236,13 +511,146 @@ export class PulseAudio extends EventEmitter {
         }
     }
 
-    _abort(error: Error) {
-        for (const t of Object.values(this.streams))
-            for (const s of Object.values(t))
-                s.emit('error', error);
+    _teardown() {
+        this.sock.off('readable', this._read);
+        this.sock.off('close', this._closed);
+        this.sock.off('error', this._closed);
+        this.sock.destroy();
+        delete this.sock;
+    }
+
+    // Reject all pending requests. Streams get destroyed with an error, unless
+    // keepStreams is true, in which case playback and record streams are set
+    // aside to be re-created after reconnect.
+    _abort(error: Error, keepStreams = false) {
+        for (const [type, t] of Object.entries(this.streams)) {
+            for (const s of Object.values<PlaybackStream | RecordStream>(t)) {
+                if (keepStreams && type !== 'upload') {
+                    s._detach();
+                    this._detached.push(s);
+                } else {
+                    this._discard(s, error);
+                }
+            }
+            this.streams[type as 'playback' | 'record' | 'upload'] = {};
+        }
 
         for (const { reject } of Object.values<{ reject: (reason: Error) => void }>(this.requests)) reject(error);
         this.requests = Object.create(null);
+        this.cancelled = Object.create(null);
+    }
+
+    // Re-establish the connection to the server with exponential backoff. Emits
+    // 'reconnecting' before each attempt and 'reconnected' once the connection
+    // and the client's state have been restored. Emits 'error' if all attempts
+    // fail.
+    async _reconnect() {
+        const { initialDelay, maxDelay, maxAttempts } = this.reconnectOptions!;
+        let error = new Error('Disconnected from PulseAudio');
+        let cancelled = false, reconnected = false;
+        let timer: NodeJS.Timeout | undefined, wakeup: (() => void) | undefined, finish: (() => void) | undefined;
+
+        this._reconnecting = {
+            cancel: () => {
+                cancelled = true;
+                if (timer) clearTimeout(timer);
+                if (wakeup) wakeup();
+            },
+            done: new Promise<void>(resolve => { finish = resolve; })
+        }
+
+        try {
+            let delay = initialDelay;
+            for (let attempt = 1; attempt <= maxAttempts && !cancelled; attempt++) {
+                debug(`Reconnecting to PulseAudio in ${delay} ms (attempt ${attempt})`);
+                this.emit('reconnecting', { attempt, delay });
+                await new Promise<void>(resolve => {
+                    wakeup = resolve;
+                    timer = setTimeout(resolve, delay);
+                });
+                timer = undefined;
+                if (cancelled) break;
+
+                try {
+                    await this._open();
+                    if (!cancelled) await this._restore();
+                } catch (e) {
+                    error = e as Error;
+                    debug(`Reconnect attempt ${attempt} failed: ${error.message}`);
+                    if (this.sock) {
+                        this._abort(error, this.reconnectOptions!.recreateStreams);
+                        this._teardown();
+                    }
+                    delay = Math.min(delay * 2, maxDelay);
+                    continue;
+                }
+
+                if (cancelled) {
+                    // The user called disconnect while the attempt was in progress
+                    debug(`Reconnect cancelled, closing the new connection`);
+                    this._abort(error);
+                    this._teardown();
+                } else {
+                    reconnected = true;
+                }
+                break;
+            }
+        } finally {
+            delete this._reconnecting;
+            finish!();
+        }
+
+        if (reconnected) {
+            this.connected = true;
+            debug(`Reconnected to PulseAudio`);
+            this.emit('reconnected');
+            return;
+        }
+
+        for (const s of this._detached.splice(0)) this._discard(s, error);
+        if (!cancelled) this.emit('error', error);
+    }
+
+    // Restore the client's properties, event subscriptions, and optionally
+    // streams on a new connection
+    async _restore() {
+        await this.setClientProperties(inflate(this.clientProps));
+
+        if (this.subscriptionMask !== PA_SUBSCRIPTION_MASK.NULL)
+            await this._subscribe(this.subscriptionMask);
+
+        for (const extension of Object.values(this.extensions))
+            if (extension.subscribed) await extension.subscribe(true);
+
+        for (const s of this._detached.slice()) {
+            // Skip streams that were ended or destroyed in the meantime
+            if (this._detached.indexOf(s) === -1) continue;
+            try {
+                await s._recreate();
+            } catch (error) {
+                // If the connection is gone again, keep the stream for the next
+                // attempt. Otherwise the stream cannot be re-created, e.g., because
+                // its device no longer exists.
+                if (!this.sock) throw error;
+                s.destroy(error as Error);
+            }
+            this._forget(s);
+        }
+    }
+
+    // Destroy a stream whose connection is gone. The stream's index may be
+    // reused by the server for another stream on a later connection, so the
+    // stream must never send anything again.
+    _discard(s: PlaybackStream | RecordStream | UploadStream, error: Error) {
+        s.dead = true;
+        s.destroy(error);
+    }
+
+    // Stop tracking a detached stream, e.g., because it has been re-created, or
+    // because it was ended or destroyed before it could be re-created
+    _forget(s: PlaybackStream | RecordStream) {
+        const i = this._detached.indexOf(s);
+        if (i !== -1) this._detached.splice(i, 1);
     }
 
     _parse(header: Buffer, body: Buffer) {
@@ -268,10 +676,17 @@ export class PulseAudio extends EventEmitter {
                 // A response to a command issued by the client. Lookup the command and
                 // fullfill its promise.
                 msg = new Command(body, header);
+                msg.protocol = this.protocol;
 
                 if (msg.tag === PA_NO_TAG)
                     throw new Error('Error/reply packet is missing tag');
 
+                if (msg.tag in this.cancelled) {
+                    debug(`Dropping late response to cancelled request ${msg.tag}`);
+                    delete this.cancelled[msg.tag];
+                    break;
+                }
+
                 if (!(msg.tag in this.requests))
                     throw new Error('Received unknown tag from PulseAudio');
 
@@ -315,7 +730,7 @@ export class PulseAudio extends EventEmitter {
             case PA_COMMAND.REQUEST:
             case PA_COMMAND.UNDERFLOW:
             case PA_COMMAND.OVERFLOW:
-                msg = new StreamEvent(header, body);
+                msg = new StreamEvent(header, body, this.protocol);
                 stream = this.streams.playback[msg.index];
                 if (stream) stream._onEvent(msg);
                 break;
@@ -325,13 +740,54 @@ export class PulseAudio extends EventEmitter {
             case PA_COMMAND.RECORD_STREAM_MOVED:
             case PA_COMMAND.RECORD_STREAM_KILLED:
             case PA_COMMAND.RECORD_BUFFER_ATTR_CHANGED:
-                msg = new StreamEvent(header, body);
+                msg = new StreamEvent(header, body, this.protocol);
                 stream = this.streams.record[msg.index];
                 if (stream) stream._onEvent(msg);
                 break;
 
+            case PA_COMMAND.EXTENSION:
+                // An event sent by a module extension, e.g., when the client has
+                // subscribed to changes in module-stream-restore. Pass the rest of
+                // the packet to the corresponding extension client.
+                msg = new ExtensionEvent(header, body);
+                if (msg.name !== null && this.extensions[msg.name])
+                    this.extensions[msg.name]._onEvent(msg);
+                else
+                    debug(`Ignoring event from unknown extension ${msg.name}`);
+                break;
+
+            case PA_COMMAND.CLIENT_EVENT:
+                // A generic event sent by a server module to this client. Handlers
+                // for client-event get the event name and its properties, handlers
+                // for client-event.<name> get only the properties.
+                msg = new ClientEvent(header, body);
+                this.emit('client-event', msg.event, msg.properties);
+                this.emit(`client-event.${msg.event}`, msg.properties);
+                debug(`client-event.${msg.event}`);
+                break;
+
+            case PA_COMMAND.ENABLE_SRBCHANNEL:
+                // The server offers a shared ringbuffer channel for low-latency
+                // streaming. The channel requires shared memory and file descriptor
+                // passing which this client does not implement, so decline the offer.
+                // The server then keeps using the socket for all data.
+                msg = new Command(body, header);
+                debug('Declining srbchannel offer from PulseAudio');
+                new ErrorReply(msg.tag, PA_ERR.NOTSUPPORTED).finalize().forEach(data => this.sock.write(data));
+                break;
+
+            case PA_COMMAND.REGISTER_MEMFD_SHMID:
+                // The server wants to register a memfd shared memory pool with the
+                // client. The server does not expect a response, so simply ignore the
+                // request. Memory blocks will be sent over the socket.
+                debug('Ignoring memfd registration request from PulseAudio');
+                break;
+
             default:
-                throw new Error(`Unsupported packet type ${type}`);
+                // Packets of unknown types are not fatal, e.g., a newer server may send
+                // notifications this client does not know about yet.
+                debug(`Ignoring unsupported packet type ${type} from PulseAudio`);
+                break;
         }
     }
 
@@ -364,179 +820,410 @@ export class PulseAudio extends EventEmitter {
         }
     }
 
-    async _invoke(cmd: Command) {
+    async _invoke(cmd: Command, { signal, timeout = this.timeout }: RequestOptions = {}) {
+        if (!this.sock) throw new Error('Not connected to PulseAudio');
+        if (signal && signal.aborted) throw abortError();
+
         return await new Promise<Command>((resolve, reject) => {
-            this.requests[cmd.tag] = { resolve, reject }
+            let timer: NodeJS.Timeout | undefined;
+
+            const cleanup = () => {
+                if (timer) clearTimeout(timer);
+                if (signal) signal.removeEventListener('abort', onAbort);
+            }
+
+            const cancel = (error: Error) => {
+                cleanup();
+                this._cancel(cmd.tag);
+                reject(error);
+            }
+
+            const onAbort = () => cancel(abortError());
+            if (signal) signal.addEventListener('abort', onAbort);
+            if (timeout) timer = setTimeout(() => cancel(new PulseError(PA_ERR.TIMEOUT)), timeout);
+
+            this.requests[cmd.tag] = {
+                resolve: (value: Command) => { cleanup(); resolve(value); },
+                reject: (error: Error) => { cleanup(); reject(error); }
+            }
             cmd.finalize().forEach(data => this.sock.write(data))
         });
     }
 
+    // Stop waiting for the response to a request that timed out or got aborted.
+    // Remember the tag so that a late response can be dropped quietly.
+    _cancel(tag: number) {
+        if (!(tag in this.requests)) return;
+        delete this.requests[tag];
+        this.cancelled[tag] = true;
+
+        // Integer keys are enumerated in ascending order, so the first key is
+        // the oldest tag
+        const tags = Object.keys(this.cancelled);
+        if (tags.length > PA_MAX_CANCELLED) delete this.cancelled[Number(tags[0])];
+    }
+
     // Internal methods
 
-    async _authenticate(...args: ConstructorParameters<typeof Cmd.Auth>) {
+    // Fail with PA_ERR.NOTSUPPORTED if the request needs a newer protocol version
+    // than the one negotiated with the server. An older server would not
+    // recognize the command and would drop the connection.
+    _requireProtocol(version: number) {
+        if (this.protocol < version) throw new PulseError(PA_ERR.NOTSUPPORTED);
+    }
+
+    async _authenticate(options: RequestOptions, ...args: ConstructorParameters<typeof Cmd.Auth>) {
         const c = new Cmd.Auth(...args);
-        return c.processResponse(await this._invoke(c));
+        return c.processResponse(await this._invoke(c, options));
     }
 
-    async _subscribe(...args: ConstructorParameters<typeof Cmd.Subscribe>) {
-        await this._invoke(new Cmd.Subscribe(...args));
+    async _subscribe(mask: PA_SUBSCRIPTION_MASK, options: RequestOptions = {}) {
+        // Remember the mask so that the subscription can be applied on connect
+        // or restored after reconnect
+        this.subscriptionMask = mask;
+        if (!this.sock) return;
+        await this._invoke(new Cmd.Subscribe(mask), options);
+    }
+
+    async _kill(cmd: PA_COMMAND, index: number, what: string, options: RequestOptions = {}) {
+        try {
+            await this._invoke(new Cmd.SelectByIndex(cmd, index), options);
+        } catch (error) {
+            // The server responds with PA_ERR.NOENTITY if the object to be killed
+            // does not exist (anymore). Keep the error code, but make the message
+            // say which object it was.
+            if ((error as any).code === PA_ERR.NOENTITY)
+                (error as any).message = `${what} ${index} does not exist`;
+            throw error;
+        }
     }
 
     // Client-related methods
 
-    async setClientProperties(...args: ConstructorParameters<typeof Cmd.SetClientName>) {
-        const c = new Cmd.SetClientName(...args);
-        return c.processResponse(await this._invoke(c));
+    // The client keeps a copy of its properties in clientProps so that they can
+    // be restored after reconnect
+
+    async setClientProperties(nameOrProps: string | Props, options: RequestOptions = {}) {
+        const c = new Cmd.SetClientName(nameOrProps);
+        const rv = c.processResponse(await this._invoke(c, options));
+
+        const props = typeof nameOrProps === 'string' ? { application: { name: nameOrProps } } : nameOrProps;
+        Object.assign(this.clientProps, deflate(props));
+        return rv;
+    }
+
+    async updateClientProperties(props: Props, mode: Cmd.UpdateMode = 'replace', options: RequestOptions = {}) {
+        await this._invoke(new Cmd.UpdateClientProps(props, mode), options);
+
+        const p = deflate(props);
+        switch (mode) {
+            case 'set'   : this.clientProps = p; break;
+            case 'merge' : this.clientProps = { ...p, ...this.clientProps }; break;
+            default      : Object.assign(this.clientProps, p); break;
+        }
+    }
+
+    async removeClientProperties(keys: string[] | Props, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.RemoveClientProps(keys), options);
+
+        for (const key of Array.isArray(keys) ? keys : Object.keys(deflate(keys)))
+            delete this.clientProps[key];
     }
 
     // Server-related methods
 
-    async getServerInfo(...args: ConstructorParameters<typeof Cmd.GetServerInfo>) {
-        const c = new Cmd.GetServerInfo(...args);
-        return c.processResponse(await this._invoke(c));
+    async getServerInfo(options: RequestOptions = {}) {
+        const c = new Cmd.GetServerInfo();
+        return c.processResponse(await this._invoke(c, options));
     }
 
-    async loadModule(...args: ConstructorParameters<typeof Cmd.LoadModule>) {
-        const c = new Cmd.LoadModule(...args);
-        return c.processResponse(await this._invoke(c));
+    async getStatistics(options: RequestOptions = {}) {
+        const c = new Cmd.Stat();
+        return c.processResponse(await this._invoke(c, options));
     }
 
-    async unloadModule(index: number) {
-        await this._invoke(new Cmd.SelectByIndex(PA_COMMAND.UNLOAD_MODULE, index));
+    async loadModule(name: string, args?: Record<string, unknown>, options: RequestOptions = {}) {
+        const c = new Cmd.LoadModule(name, args);
+        return c.processResponse(await this._invoke(c, options));
     }
 
-    async getAllSources() {
+    async unloadModule(index: number, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.SelectByIndex(PA_COMMAND.UNLOAD_MODULE, index), options);
+    }
+
+    async getModuleInfo(index: number, options: RequestOptions = {}) {
+        const c = new Cmd.GetModuleInfo(index);
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    async getAllModules(options: RequestOptions = {}) {
+        const c = new Cmd.GetModuleInfoList();
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    async getAllSources(options: RequestOptions = {}) {
         const c = new Cmd.GetSourceSinkInfoList(PA_COMMAND.GET_SOURCE_INFO_LIST);
-        return c.processResponse(await this._invoke(c));
+        return c.processResponse(await this._invoke(c, options));
     }
 
-    async getAllSinks() {
+    async getAllSinks(options: RequestOptions = {}) {
         const c = new Cmd.GetSourceSinkInfoList(PA_COMMAND.GET_SINK_INFO_LIST);
-        return c.processResponse(await this._invoke(c));
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    // Card management methods
+
+    async getCardInfo(nameOrIndex: string | number, options: RequestOptions = {}) {
+        this._requireProtocol(15);
+        const c = new Cmd.GetCardInfo(nameOrIndex);
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    async getAllCards(options: RequestOptions = {}) {
+        this._requireProtocol(15);
+        const c = new Cmd.GetCardInfoList();
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    async setCardProfile(nameOrIndex: string | number, profile: string, options: RequestOptions = {}) {
+        this._requireProtocol(15);
+        await this._invoke(new Cmd.SetCardProfile(nameOrIndex, profile), options);
+    }
+
+    async setPortLatencyOffset(card: string | number, port: string, offset: bigint | number, options: RequestOptions = {}) {
+        this._requireProtocol(27);
+
+        // Make sure the card and the port exist before we attempt to configure the
+        // offset. getCardInfo fails with PA_ERR.NOENTITY if there is no such card.
+        // Report a missing port with the same error code the server would use.
+        const info = await this.getCardInfo(card, options);
+        if (!info.ports.some(p => p.name === port))
+            throw new PulseError(PA_ERR.NOENTITY);
+
+        await this._invoke(new Cmd.SetPortLatencyOffset(info.index, port, offset), options);
     }
 
     // Audio source (recording) management methods
 
-    async setDefaultSource(name: string) {
-        await this._invoke(new Cmd.SelectByName(PA_COMMAND.SET_DEFAULT_SOURCE, name));
+    async setDefaultSource(name: string, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.SelectByName(PA_COMMAND.SET_DEFAULT_SOURCE, name), options);
     }
 
-    async lookupSource(name: string = PA_DEFAULT_SOURCE) {
+    async lookupSource(name: string = PA_DEFAULT_SOURCE, options: RequestOptions = {}) {
         const c = new Cmd.Lookup(PA_COMMAND.LOOKUP_SOURCE, name);
-        return c.processResponse(await this._invoke(c));
+        return c.processResponse(await this._invoke(c, options));
     }
 
-    async getSourceInfo(nameOrIndex: string | number = PA_DEFAULT_SOURCE) {
+    async getSourceInfo(nameOrIndex: string | number = PA_DEFAULT_SOURCE, options: RequestOptions = {}) {
         const c = new Cmd.GetSourceSinkInfo(PA_COMMAND.GET_SOURCE_INFO, nameOrIndex);
-        return c.processResponse(await this._invoke(c));
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    async setSourceVolume(volumes: number | number[], nameOrIndex: string | number = PA_DEFAULT_SOURCE, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.SetVolume(PA_COMMAND.SET_SOURCE_VOLUME, nameOrIndex, volumes), options);
+    }
+
+    async setSourceMute(mute: boolean, nameOrIndex: string | number=PA_DEFAULT_SOURCE, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.SetMute(PA_COMMAND.SET_SOURCE_MUTE, nameOrIndex, mute), options);
+    }
+
+    async setSourcePort(nameOrIndex: string | number, port: string, options: RequestOptions = {}) {
+        this._requireProtocol(16);
+        await this._invoke(new Cmd.SetPort(PA_COMMAND.SET_SOURCE_PORT, nameOrIndex, port), options);
     }
 
-    async setSourceVolume(volumes: number | number[], nameOrIndex: string | number = PA_DEFAULT_SOURCE) {
-        await this._invoke(new Cmd.SetVolume(PA_COMMAND.SET_SOURCE_VOLUME, nameOrIndex, volumes));
+    // Switch the source to its best port, as determined by bestPort. Returns
+    // the name of the selected port or null if the source has no ports.
+    async setBestSourcePort(nameOrIndex: string | number = PA_DEFAULT_SOURCE, options: RequestOptions = {}) {
+        const { ports } = await this.getSourceInfo(nameOrIndex, options);
+        const port = bestPort(ports);
+        if (port === null) return null;
+        await this.setSourcePort(nameOrIndex, port.name, options);
+        return port.name;
     }
 
-    async setSourceMute(mute: boolean, nameOrIndex: string | number=PA_DEFAULT_SOURCE) {
-        await this._invoke(new Cmd.SetMute(PA_COMMAND.SET_SOURCE_MUTE, nameOrIndex, mute));
+    // Suspend or resume the source. Pass PA_NO_INDEX to suspend or resume all
+    // sources at once.
+    async suspendSource(nameOrIndex: string | number, suspend: boolean, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.Suspend(PA_COMMAND.SUSPEND_SOURCE, nameOrIndex, suspend), options);
     }
 
-    async setSourceOutputVolume(index: number, volumes: number | number[]) {
-        await this._invoke(new Cmd.SetVolumeByIndex(PA_COMMAND.SET_SOURCE_OUTPUT_VOLUME, index, volumes));
+    async setSourceOutputVolume(index: number, volumes: number | number[], options: RequestOptions = {}) {
+        this._requireProtocol(22);
+        await this._invoke(new Cmd.SetVolumeByIndex(PA_COMMAND.SET_SOURCE_OUTPUT_VOLUME, index, volumes), options);
     }
 
-    async setSourceOutputMute(index: number, mute: boolean) {
-        await this._invoke(new Cmd.SetMuteByIndex(PA_COMMAND.SET_SOURCE_OUTPUT_MUTE, index, mute));
+    async setSourceOutputMute(index: number, mute: boolean, options: RequestOptions = {}) {
+        this._requireProtocol(22);
+        await this._invoke(new Cmd.SetMuteByIndex(PA_COMMAND.SET_SOURCE_OUTPUT_MUTE, index, mute), options);
     }
 
-    async getSourceOutputInfo(...args: ConstructorParameters<typeof Cmd.GetSourceOutputInfo>) {
-        const c = new Cmd.GetSourceOutputInfo(...args);
-        return c.processResponse(await this._invoke(c));
+    async getSourceOutputInfo(index: number, options: RequestOptions = {}) {
+        const c = new Cmd.GetSourceOutputInfo(index);
+        return c.processResponse(await this._invoke(c, options));
     }
 
-    async getSourceOutputList() {
+    async getSourceOutputList(options: RequestOptions = {}) {
         const c = new Cmd.GetSourceOutputList(PA_COMMAND.GET_SOURCE_OUTPUT_INFO_LIST)
-        return c.processResponse(await this._invoke(c))
+        return c.processResponse(await this._invoke(c, options))
+    }
+
+    async moveSourceOutput(index: number, source: number | string, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.Move(PA_COMMAND.MOVE_SOURCE_OUTPUT, index, source), options);
     }
 
-    async moveSourceOutput(index: number, source: number | string) {
-        await this._invoke(new Cmd.Move(PA_COMMAND.MOVE_SOURCE_OUTPUT, index, source));
+    async killSourceOutput(index: number, options: RequestOptions = {}) {
+        await this._kill(PA_COMMAND.KILL_SOURCE_OUTPUT, index, 'Source output', options);
     }
 
-    async createRecordStream(...args: ConstructorParameters<typeof Cmd.CreateRecordStream>) {
-        const c = new Cmd.CreateRecordStream(...args);
-        return c.processResponse(await this._invoke(c), this);
+    async createRecordStream(opts: any = {}, options: RequestOptions = {}) {
+        const c = new Cmd.CreateRecordStream(opts, this.protocol);
+        return c.processResponse(await this._invoke(c, options), this);
     }
 
     // // Audio sink (playback) management methods
 
-    async setDefaultSink(name: string) {
-        await this._invoke(new Cmd.SelectByName(PA_COMMAND.SET_DEFAULT_SINK, name));
+    async setDefaultSink(name: string, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.SelectByName(PA_COMMAND.SET_DEFAULT_SINK, name), options);
     }
 
-    async lookupSink(name = PA_DEFAULT_SINK) {
+    async lookupSink(name = PA_DEFAULT_SINK, options: RequestOptions = {}) {
         const c = new Cmd.Lookup(PA_COMMAND.LOOKUP_SINK, name);
-        return c.processResponse(await this._invoke(c));
+        return c.processResponse(await this._invoke(c, options));
     }
 
-    async getSinkInfo(nameOrIndex: string | number = PA_DEFAULT_SINK) {
+    async getSinkInfo(nameOrIndex: string | number = PA_DEFAULT_SINK, options: RequestOptions = {}) {
         const c = new Cmd.GetSourceSinkInfo(PA_COMMAND.GET_SINK_INFO, nameOrIndex);
-        return c.processResponse(await this._invoke(c));
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    async setSinkVolume(volumes: number | number[], nameOrIndex: string | number = PA_DEFAULT_SINK, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.SetVolume(PA_COMMAND.SET_SINK_VOLUME, nameOrIndex, volumes), options);
+    }
+
+    async setSinkMute(mute: boolean, nameOrIndex: string | number = PA_DEFAULT_SINK, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.SetMute(PA_COMMAND.SET_SINK_MUTE, nameOrIndex, mute), options);
     }
 
-    async setSinkVolume(volumes: number | number[], nameOrIndex: string | number = PA_DEFAULT_SINK) {
-        await this._invoke(new Cmd.SetVolume(PA_COMMAND.SET_SINK_VOLUME, nameOrIndex, volumes));
+    async setSinkPort(nameOrIndex: string | number, port: string, options: RequestOptions = {}) {
+        this._requireProtocol(16);
+        await this._invoke(new Cmd.SetPort(PA_COMMAND.SET_SINK_PORT, nameOrIndex, port), options);
     }
 
-    async setSinkMute(mute: boolean, nameOrIndex: string | number = PA_DEFAULT_SINK) {
-        await this._invoke(new Cmd.SetMute(PA_COMMAND.SET_SINK_MUTE, nameOrIndex, mute));
+    // Switch the sink to its best port, as determined by bestPort. Returns the
+    // name of the selected port or null if the sink has no ports.
+    async setBestSinkPort(nameOrIndex: string | number = PA_DEFAULT_SINK, options: RequestOptions = {}) {
+        const { ports } = await this.getSinkInfo(nameOrIndex, options);
+        const port = bestPort(ports);
+        if (port === null) return null;
+        await this.setSinkPort(nameOrIndex, port.name, options);
+        return port.name;
     }
 
-    async setSinkInputVolume(index: number, volumes: number | number[]) {
-        await this._invoke(new Cmd.SetVolumeByIndex(PA_COMMAND.SET_SINK_INPUT_VOLUME, index, volumes));
+    // Suspend or resume the sink. Pass PA_NO_INDEX to suspend or resume all
+    // sinks at once.
+    async suspendSink(nameOrIndex: string | number, suspend: boolean, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.Suspend(PA_COMMAND.SUSPEND_SINK, nameOrIndex, suspend), options);
     }
 
-    async setSinkInputMute(index: number, mute: boolean) {
-        await this._invoke(new Cmd.SetMuteByIndex(PA_COMMAND.SET_SINK_INPUT_MUTE, index, mute));
+    async setSinkInputVolume(index: number, volumes: number | number[], options: RequestOptions = {}) {
+        await this._invoke(new Cmd.SetVolumeByIndex(PA_COMMAND.SET_SINK_INPUT_VOLUME, index, volumes), options);
     }
 
-    async getSinkInputInfo(...args: ConstructorParameters<typeof Cmd.GetSinkInputInfo>) {
-        const c = new Cmd.GetSinkInputInfo(...args);
-        return c.processResponse(await this._invoke(c));
+    async setSinkInputMute(index: number, mute: boolean, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.SetMuteByIndex(PA_COMMAND.SET_SINK_INPUT_MUTE, index, mute), options);
     }
 
-    async getSinkInputList() {
+    async getSinkInputInfo(index: number, options: RequestOptions = {}) {
+        const c = new Cmd.GetSinkInputInfo(index);
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    async getSinkInputList(options: RequestOptions = {}) {
         const c = new Cmd.GetSinkInputList(PA_COMMAND.GET_SINK_INPUT_INFO_LIST)
-        return c.processResponse(await this._invoke(c))
+        return c.processResponse(await this._invoke(c, options))
+    }
+
+    async moveSinkInput(index: number, sink: number | string, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.Move(PA_COMMAND.MOVE_SINK_INPUT, index, sink), options);
     }
 
-    async moveSinkInput(index: number, sink: number | string) {
-        await this._invoke(new Cmd.Move(PA_COMMAND.MOVE_SINK_INPUT, index, sink));
+    async killSinkInput(index: number, options: RequestOptions = {}) {
+        await this._kill(PA_COMMAND.KILL_SINK_INPUT, index, 'Sink input', options);
     }
 
-    async createPlaybackStream(opts: any = {}) {
-        const c = new Cmd.CreatePlaybackStream(opts);
-        return c.processResponse(await this._invoke(c), this);
+    async createPlaybackStream(opts: any = {}, options: RequestOptions = {}) {
+        const c = new Cmd.CreatePlaybackStream(opts, PA_COMMAND.CREATE_PLAYBACK_STREAM, this.protocol);
+        return c.processResponse(await this._invoke(c, options), this);
     }
 
     // // Sample cache management
 
-    async createUploadStream(...args: ConstructorParameters<typeof Cmd.CreateUploadStream>) {
-        const c = new Cmd.CreateUploadStream(...args);
-        return c.processResponse(await this._invoke(c), this);
+    async createUploadStream(opts: any = {}, options: RequestOptions = {}) {
+        const c = new Cmd.CreateUploadStream(opts);
+        return c.processResponse(await this._invoke(c, options), this);
+    }
+
+    async playSample(name: string, opts: any = {}, options: RequestOptions = {}) {
+        const c = new Cmd.PlaySample(name, opts);
+        return c.processResponse(await this._invoke(c, options));
     }
 
-    async playSample(...args: ConstructorParameters<typeof Cmd.PlaySample>) {
-        const c = new Cmd.PlaySample(...args);
-        return c.processResponse(await this._invoke(c));
+    async removeSample(name: string, options: RequestOptions = {}) {
+        await this._invoke(new Cmd.SelectByName(PA_COMMAND.REMOVE_SAMPLE, name), options);
     }
 
-    async removeSample(name: string) {
-        await this._invoke(new Cmd.SelectByName(PA_COMMAND.REMOVE_SAMPLE, name));
+    async getSampleInfo(nameOrIndex: string | number, options: RequestOptions = {}) {
+        const c = new Cmd.GetSampleInfo(nameOrIndex);
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    async getAllSamples(options: RequestOptions = {}) {
+        const c = new Cmd.GetSampleInfoList();
+        return c.processResponse(await this._invoke(c, options));
     }
 
     // PulseAudio clients
 
-    async getClients() {
+    async getClients(options: RequestOptions = {}) {
         const c = new Cmd.GetClientsList(PA_COMMAND.GET_CLIENT_INFO_LIST);
-        return c.processResponse(await this._invoke(c));
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    async getClientInfo(index: number, options: RequestOptions = {}) {
+        const c = new Cmd.GetClientInfo(index);
+        return c.processResponse(await this._invoke(c, options));
+    }
+
+    // Return all sink inputs (playback streams) and source outputs (recording
+    // streams) that belong to the client with the given index.
+    async getClientStreams(index: number, options: RequestOptions = {}) {
+        // Make sure the client exists so that the caller gets an error rather
+        // than empty lists for an invalid index
+        await this.getClientInfo(index, options);
+
+        const [sinkInputs, sourceOutputs] = await Promise.all([
+            this.getSinkInputList(options),
+            this.getSourceOutputList(options)
+        ]);
+
+        return {
+            sinkInputs    : sinkInputs.filter(s => s.client === index),
+            sourceOutputs : sourceOutputs.filter(s => s.client === index)
+        }
+    }
+
+    async killClient(index: number, options: RequestOptions = {}) {
+        await this._kill(PA_COMMAND.KILL_CLIENT, index, 'Client', options);
+    }
+
+    // Object message API
+
+    async sendObjectMessage(path: string, message: string, params?: string | MessageValue[] | null, options: RequestOptions = {}) {
+        // The message API was introduced in protocol version 35 (PulseAudio 15.0)
+        this._requireProtocol(35);
+
+        const c = new Cmd.SendObjectMessage(path, message, params);
+        return c.processResponse(await this._invoke(c, options));
     }
 }
@@ -12,9 +12,11 @@
 // ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF
 // OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
 
-import { logger, PA_NO_VALUE, PA_NATIVE_PROTOCOL_VERSION, PA_NO_INDEX, PA_MAX_CHANNELS, PA_DEFAULT_SINK, PA_NATIVE_COOKIE_LENGTH } from './defs';
+import { logger, PA_NO_VALUE, PA_NATIVE_PROTOCOL_VERSION, PA_NO_INDEX, PA_MAX_CHANNELS, PA_DEFAULT_SINK, PA_NATIVE_COOKIE_LENGTH, PA_PORT_AVAILABLE, PA_DIRECTION, PA_DEVICE_PORT_TYPE, gettimeofday } from './defs';
 import { TagStruct, SampleSpec } from './packet';
+import { PulseError, PA_ERR } from './error';
 import { Props, deflate } from './props';
+import { MessageParam, MessageValue, formatMessageParams, parseMessageParams } from './message';
 import { RecordStream, UploadStream, PlaybackStream } from './stream';
 import { PA_VOLUME_NORM } from './volume';
 import { wavToChannelMap } from './wav';
@@ -197,6 +199,9 @@ export enum PA_COMMAND {
      * BOTH DIRECTIONS */
     REGISTER_MEMFD_SHMID,
 
+    /* Supported since protocol v35 (15.0) */
+    SEND_OBJECT_MESSAGE,
+
     MAX
 }
 
@@ -224,6 +229,20 @@ export class Command extends TagStruct {
 }
 
 
+// An error response to a request sent by the server, e.g., when the server
+// offers a feature that this client does not implement. Unlike commands, the
+// response carries the tag of the server's request.
+export class ErrorReply extends TagStruct {
+    constructor(tag: number, code: PA_ERR) {
+        super();
+        this.setChannel(PA_NO_CHANNEL);
+        this.addUInt32(PA_COMMAND.ERROR);
+        this.addUInt32(tag);
+        this.addUInt32(code);
+    }
+}
+
+
 export class Auth extends Command {
     static PA_PROTOCOL_VERSION_MASK = 0xffff;
 
@@ -282,7 +301,7 @@ export interface ServerInfo {
     defaultSink       : string;
     defaultSource     : string;
     cookie            : number;
-    defaultChannelMap : number[];
+    defaultChannelMap : number[] | null;
 }
 
 
@@ -301,7 +320,33 @@ export class GetServerInfo extends Command {
             defaultSink       : packet.getString() ?? '',
             defaultSource     : packet.getString() ?? '',
             cookie            : packet.getUInt32(),
-            defaultChannelMap : packet.getChannelMap() // if procol version >= 15
+            defaultChannelMap : packet.protocol >= 15 ? packet.getChannelMap() : null
+        }
+    }
+}
+
+
+export interface ServerStatistics {
+    memblockTotal         : number;  // Currently allocated memory blocks
+    memblockTotalSize     : number;  // Current total size of allocated memory blocks
+    memblockAllocated     : number;  // Allocated memory blocks during the whole lifetime of the daemon
+    memblockAllocatedSize : number;  // Total size of all memory blocks allocated during the whole lifetime of the daemon
+    scacheSize            : number;  // Total size of all sample cache entries
+}
+
+
+export class Stat extends Command {
+    constructor() {
+        super(PA_COMMAND.STAT);
+    }
+
+    processResponse(packet: TagStruct): ServerStatistics {
+        return {
+            memblockTotal         : packet.getUInt32(),
+            memblockTotalSize     : packet.getUInt32(),
+            memblockAllocated     : packet.getUInt32(),
+            memblockAllocatedSize : packet.getUInt32(),
+            scacheSize            : packet.getUInt32()
         }
     }
 }
@@ -398,6 +443,44 @@ export class SetMuteByIndex extends SelectByIndex {
 }
 
 
+export class Suspend extends SelectByNameOrIndex {
+    constructor(cmd: PA_COMMAND, nameOrIndex: number | string, suspend: boolean) {
+        // The server suspends or resumes all sinks (sources) if it receives
+        // PA_NO_INDEX together with an empty name
+        super(cmd, nameOrIndex === PA_NO_INDEX ? '' : nameOrIndex);
+
+        if (typeof suspend !== 'boolean')
+            throw new Error('Suspend value must be a boolean');
+
+        this.addBool(suspend);
+    }
+}
+
+
+export class SetPort extends SelectByNameOrIndex {
+    constructor(cmd: PA_COMMAND, nameOrIndex: number | string | null, port: string) {
+        super(cmd, nameOrIndex);
+
+        if (typeof port !== 'string' || !port.length)
+            throw new Error('Port name must be a non-empty string');
+
+        this.addString(port);
+    }
+}
+
+
+export class Cork extends SelectByIndex {
+    constructor(cmd: PA_COMMAND, index: number, corked: boolean) {
+        super(cmd, index);
+
+        if (typeof corked !== 'boolean')
+            throw new Error('Cork value must be a boolean');
+
+        this.addBool(corked);
+    }
+}
+
+
 export class Lookup extends SelectByName {
     processResponse(packet: TagStruct) {
         return packet.getUInt32();
@@ -405,7 +488,9 @@ export class Lookup extends SelectByName {
 }
 
 
-function parseSourceSink(packet: TagStruct) {
+// See sink_fill_tagstruct and source_fill_tagstruct in
+// pulsecore/protocol-native.c
+function parseSourceSink(packet: TagStruct, source: boolean) {
     const rv: any = {
         index       : packet.getUInt32(),
         name        : packet.getString(),
@@ -432,30 +517,44 @@ function parseSourceSink(packet: TagStruct) {
     rv.properties        = packet.getProps();
     rv.latency.requested = packet.getUsec();
 
-    // client version >= 15
-    rv.volume.base  = packet.getVolume();
-    rv.state        = packet.getUInt32();
-    rv.volume.steps = packet.getUInt32();
-    rv.card         = packet.getUInt32();
+    if (packet.protocol >= 15) {
+        rv.volume.base  = packet.getVolume();
+        rv.state        = packet.getUInt32();
+        rv.volume.steps = packet.getUInt32();
+        rv.card         = packet.getUInt32();
+    }
 
-    // client version >= 16
     rv.ports = [];
-    const ports = packet.getUInt32();
-    for (let i = 0; i < ports; i++) {
-        rv.ports.push({
-            name        : packet.getString(),
-            description : packet.getString(),
-            priority    : packet.getUInt32(),
-            available   : packet.getUInt32()  // client version >= 24
-        });
+    rv.activePort = null;
+    if (packet.protocol >= 16) {
+        const ports = packet.getUInt32();
+        for (let i = 0; i < ports; i++) {
+            const port: any = {
+                name        : packet.getString(),
+                description : packet.getString(),
+                priority    : packet.getUInt32(),
+                available   : PA_PORT_AVAILABLE.UNKNOWN
+            }
+
+            if (packet.protocol >= 24) {
+                port.available = packet.getUInt32();
+                if (packet.protocol >= 34) {
+                    port.availabilityGroup = packet.getString();
+                    port.type = packet.getUInt32();
+                }
+            }
+            rv.ports.push(port);
+        }
+        rv.activePort = packet.getString();
     }
-    rv.activePort = packet.getString();
 
-    // client version >= 21
+    // Sinks report supported formats since version 21, sources since version 22
     rv.formats = [];
-    const formats = packet.getUInt8();
-    for (let i = 0; i < formats; i++)
-        rv.formats.push(packet.getFormatInfo());
+    if (packet.protocol >= (source ? 22 : 21)) {
+        const formats = packet.getUInt8();
+        for (let i = 0; i < formats; i++)
+            rv.formats.push(packet.getFormatInfo());
+    }
 
     return rv;
 }
@@ -463,7 +562,7 @@ function parseSourceSink(packet: TagStruct) {
 
 export class GetSourceSinkInfo extends SelectByNameOrIndex {
     processResponse(packet: TagStruct) {
-        return parseSourceSink(packet);
+        return parseSourceSink(packet, this.type === PA_COMMAND.GET_SOURCE_INFO);
     }
 }
 
@@ -472,7 +571,7 @@ export class GetSourceSinkInfoList extends Command {
     processResponse(packet: TagStruct) {
         const rv: Record<string, unknown>[] = [];
         while (packet.i < packet.body.length)
-            rv.push(parseSourceSink(packet));
+            rv.push(parseSourceSink(packet, this.type === PA_COMMAND.GET_SOURCE_INFO_LIST));
         return rv;
     }
 }
@@ -555,34 +654,40 @@ export class Subscribe extends Command {
 }
 
 
+// See sink_input_fill_tagstruct in pulsecore/protocol-native.c
+function parseSinkInput(packet: TagStruct) {
+    return {
+        index      : packet.getUInt32(),
+        name       : packet.getString(),
+        module     : packet.getUInt32(),
+        client     : packet.getUInt32(),
+        sink       : packet.getUInt32(),
+        sampleSpec : packet.getSampleSpec(),
+        channelMap : packet.getChannelMap(),
+        volume     : packet.getCvolume(),
+        latency    : {
+            minimum : packet.getUsec(),
+            maximum : packet.getUsec()
+        },
+        resampleMethod : packet.getString(),
+        driver         : packet.getString(),
+        muted          : packet.getBool(),   // client version >= 11
+        properties     : packet.getProps(),  // client version >= 13
+        corked         : packet.protocol >= 19 ? packet.getBool() : false,
+        hasVolume      : packet.protocol >= 20 ? packet.getBool() : true,
+        writableVolume : packet.protocol >= 20 ? packet.getBool() : true,
+        formatInfo     : packet.protocol >= 21 ? packet.getFormatInfo() : null
+    }
+}
+
+
 export class GetSinkInputInfo extends SelectByIndex {
     constructor(index: number) {
         super(PA_COMMAND.GET_SINK_INPUT_INFO, index);
     }
 
     processResponse(packet: TagStruct) {
-        return {
-            index      : packet.getUInt32(),
-            name       : packet.getString(),
-            module     : packet.getUInt32(),
-            client     : packet.getUInt32(),
-            sink       : packet.getUInt32(),
-            sampleSpec : packet.getSampleSpec(),
-            channelMap : packet.getChannelMap(),
-            volume     : packet.getCvolume(),
-            latency    : {
-                minimum : packet.getUsec(),
-                maximum : packet.getUsec()
-            },
-            resampleMethod : packet.getString(),
-            driver         : packet.getString(),
-            muted          : packet.getBool(),
-            properties     : packet.getProps(),
-            corked         : packet.getBool(),
-            hasVolume      : packet.getBool(),
-            writableVolume : packet.getBool(),
-            formatInfo     : packet.getFormatInfo()
-        }
+        return parseSinkInput(packet);
     }
 }
 
@@ -602,13 +707,13 @@ function parseSourceOutputInfoPacket(packet: TagStruct) {
         },
         resampleMethod : packet.getString(),
         driver         : packet.getString(),
-        properties     : packet.getProps(),
-        corked         : packet.getBool(),
-        volume         : packet.getCvolume(),
-        muted          : packet.getBool(),
-        hasVolume      : packet.getBool(),
-        writableVolume : packet.getBool(),
-        formatInfo     : packet.getFormatInfo()
+        properties     : packet.getProps(),  // client version >= 13
+        corked         : packet.protocol >= 19 ? packet.getBool() : false,
+        volume         : packet.protocol >= 22 ? packet.getCvolume() : null,
+        muted          : packet.protocol >= 22 ? packet.getBool() : false,
+        hasVolume      : packet.protocol >= 22 ? packet.getBool() : false,
+        writableVolume : packet.protocol >= 22 ? packet.getBool() : false,
+        formatInfo     : packet.protocol >= 22 ? packet.getFormatInfo() : null
     }
 }
 
@@ -624,6 +729,22 @@ export class GetSourceOutputInfo extends SelectByIndex {
 
 type StreamType = "upload" | "playback" | "record";
 
+
+// Return true if the negotiated protocol version is at least the given
+// version, i.e., the given stream options can be sent to the server. Otherwise
+// make sure that the caller did not ask for any of the options, since the
+// server would not know about them. See create_stream in pulse/stream.c
+function supports(protocol: number, version: number, opts: any, defaults: any, names: string[]) {
+    if (protocol >= version) return true;
+
+    for (const name of names) {
+        const value = opts[name];
+        if (Array.isArray(value) ? value.length : value !== defaults[name])
+            throw new PulseError(PA_ERR.NOTSUPPORTED);
+    }
+    return false;
+}
+
 class CreateStream extends Command {
     static cmdToType(cmd: PA_COMMAND): StreamType {
         switch (cmd) {
@@ -701,9 +822,10 @@ export class CreatePlaybackStream extends CreateStream {
         formats                : []
     }
 
-    constructor(opts: any={}, cmd=PA_COMMAND.CREATE_PLAYBACK_STREAM) {
+    constructor(opts: any={}, cmd=PA_COMMAND.CREATE_PLAYBACK_STREAM, protocol=PA_NATIVE_PROTOCOL_VERSION) {
         super(cmd);
-        opts = CreateStream.parseOpts(opts, CreatePlaybackStream.defaults);
+        const defaults = CreatePlaybackStream.defaults;
+        opts = CreateStream.parseOpts(opts, defaults);
         this.opts = opts;
 
         this.addSampleSpec(opts.sampleSpec);
@@ -727,14 +849,26 @@ export class CreatePlaybackStream extends CreateStream {
         this.addBool(opts.muted);
         this.addBool(opts.adjustLatency);
         this.addProps(opts.properties);
-        this.addBool(opts.volumeSet);
-        this.addBool(opts.earlyRequests);
-        this.addBool(opts.mutedSet);
-        this.addBool(opts.dontInhibitAutoSuspend);
-        this.addBool(opts.failOnSuspend);
-        this.addBool(opts.relativeVolume);
-        this.addBool(opts.passthrough);
-        this._addFormats(opts.formats);
+
+        if (supports(protocol, 14, opts, defaults, ['volumeSet', 'earlyRequests'])) {
+            this.addBool(opts.volumeSet);
+            this.addBool(opts.earlyRequests);
+        }
+
+        if (supports(protocol, 15, opts, defaults, ['mutedSet', 'dontInhibitAutoSuspend', 'failOnSuspend'])) {
+            this.addBool(opts.mutedSet);
+            this.addBool(opts.dontInhibitAutoSuspend);
+            this.addBool(opts.failOnSuspend);
+        }
+
+        if (supports(protocol, 17, opts, defaults, ['relativeVolume']))
+            this.addBool(opts.relativeVolume);
+
+        if (supports(protocol, 18, opts, defaults, ['passthrough']))
+            this.addBool(opts.passthrough);
+
+        if (supports(protocol, 21, opts, defaults, ['formats']))
+            this._addFormats(opts.formats);
 
         // Every time we create a new playback stream, increment the globally unique
         // syncId counter so that its value is unique when the next stream is
@@ -743,12 +877,13 @@ export class CreatePlaybackStream extends CreateStream {
         syncIdCounter++;
     }
 
-    processResponse(packet: TagStruct, pulseaudio: PulseAudio) {
-        const s = new PlaybackStream(pulseaudio, {
+    // Parse the attributes of the stream created by the server. Also used to bind
+    // an existing PlaybackStream object to a stream re-created after reconnect.
+    parseResponse(packet: TagStruct) {
+        return {
             index          : packet.getUInt32(),
             sinkInput      : packet.getUInt32(),
             requestedBytes : packet.getUInt32(),
-            maximumLength  : this.opts.maximumLength,
             buffer         : {
                 maximumLength  : packet.getUInt32(),
                 targetLength   : packet.getUInt32(),
@@ -762,13 +897,23 @@ export class CreatePlaybackStream extends CreateStream {
                 name      : packet.getString(),
                 suspended : packet.getBool()
             },
-            configuredSinkLatency : packet.getUsec(),
-            format                : packet.getFormatInfo()
+            configuredSinkLatency : packet.getUsec(),  // client version >= 13
+            format                : packet.protocol >= 21 ? packet.getFormatInfo() : null
+        }
+    }
+
+    processResponse(packet: TagStruct, pulseaudio: PulseAudio) {
+        const s = new PlaybackStream(pulseaudio, {
+            ...this.parseResponse(packet),
+            maximumLength : this.opts.maximumLength,
+            corked        : this.opts.corked,
+            createOptions : this.opts
         });
 
         pulseaudio.streams.playback[s.index] = s;
         s.once('close', () => {
-            delete pulseaudio.streams.playback[s.index];
+            // The server may have reused the index for another stream by now
+            if (pulseaudio.streams.playback[s.index] === s) delete pulseaudio.streams.playback[s.index];
         });
 
         return s;
@@ -817,7 +962,8 @@ export class CreateUploadStream extends CreateStream {
 
         pulseaudio.streams.upload[s.index] = s;
         s.once('close', () => {
-            delete pulseaudio.streams.upload[s.index];
+            // The server may have reused the index for another stream by now
+            if (pulseaudio.streams.upload[s.index] === s) delete pulseaudio.streams.upload[s.index];
         });
 
         return s;
@@ -858,9 +1004,10 @@ export class CreateRecordStream extends CreateStream {
         passthrough            : false
     }
 
-    constructor(opts: any = {}) {
+    constructor(opts: any = {}, protocol = PA_NATIVE_PROTOCOL_VERSION) {
         super(PA_COMMAND.CREATE_RECORD_STREAM);
-        opts = CreateStream.parseOpts(opts, CreateRecordStream.defaults);
+        const defaults = CreateRecordStream.defaults;
+        opts = CreateStream.parseOpts(opts, defaults);
         this.opts = opts;
 
         this.addSampleSpec(opts.sampleSpec);
@@ -881,23 +1028,34 @@ export class CreateRecordStream extends CreateStream {
         this.addBool(opts.adjustLatency);
         this.addProps(opts.properties);
         this.addUInt32(opts.directOnInputIndex);
-        this.addBool(opts.earlyRequests);
-        this.addBool(opts.dontInhibitAutoSuspend);
-        this.addBool(opts.failOnSuspend);
-        this._addFormats(opts.formats);
-        this.addCvolume(opts.volume);
-        this.addBool(opts.muted);
-        this.addBool(opts.volumeSet);
-        this.addBool(opts.mutedSet);
-        this.addBool(opts.relativeVolume);
-        this.addBool(opts.passthrough);
+
+        if (supports(protocol, 14, opts, defaults, ['earlyRequests']))
+            this.addBool(opts.earlyRequests);
+
+        if (supports(protocol, 15, opts, defaults, ['dontInhibitAutoSuspend', 'failOnSuspend'])) {
+            this.addBool(opts.dontInhibitAutoSuspend);
+            this.addBool(opts.failOnSuspend);
+        }
+
+        // The volume and mute state are only applied if the corresponding *Set
+        // option is true, so there is no need to check them here
+        if (supports(protocol, 22, opts, defaults, ['formats', 'volumeSet', 'mutedSet', 'relativeVolume', 'passthrough'])) {
+            this._addFormats(opts.formats);
+            this.addCvolume(opts.volume);
+            this.addBool(opts.muted);
+            this.addBool(opts.volumeSet);
+            this.addBool(opts.mutedSet);
+            this.addBool(opts.relativeVolume);
+            this.addBool(opts.passthrough);
+        }
     }
 
-    processResponse(packet: TagStruct, pulseaudio: PulseAudio) {
-        const s = new RecordStream(pulseaudio, {
+    // Parse the attributes of the stream created by the server. Also used to bind
+    // an existing RecordStream object to a stream re-created after reconnect.
+    parseResponse(packet: TagStruct) {
+        return {
             index         : packet.getUInt32(),
             sourceOutput  : packet.getUInt32(),
-            maximumLength : this.opts.maximumLength,
             buffer        : {
                 maximumLength : packet.getUInt32(),
                 fragmentSize  : packet.getUInt32()
@@ -909,13 +1067,23 @@ export class CreateRecordStream extends CreateStream {
                 name      : packet.getString(),
                 suspended : packet.getBool()
             },
-            configuredSourceLatency : packet.getUsec(),
-            format                  : packet.getFormatInfo()
+            configuredSourceLatency : packet.getUsec(),  // client version >= 13
+            format                  : packet.protocol >= 22 ? packet.getFormatInfo() : null
+        }
+    }
+
+    processResponse(packet: TagStruct, pulseaudio: PulseAudio) {
+        const s = new RecordStream(pulseaudio, {
+            ...this.parseResponse(packet),
+            maximumLength : this.opts.maximumLength,
+            corked        : this.opts.corked,
+            createOptions : this.opts
         });
 
         pulseaudio.streams.record[s.index] = s;
         s.once('close', () => {
-            delete pulseaudio.streams.record[s.index];
+            // The server may have reused the index for another stream by now
+            if (pulseaudio.streams.record[s.index] === s) delete pulseaudio.streams.record[s.index];
         })
 
         return s;
@@ -923,18 +1091,43 @@ export class CreateRecordStream extends CreateStream {
 }
 
 
+export interface ClientInfo {
+    index       : number;
+    name        : string;
+    ownerModule : number;
+    driver      : string;
+    properties  : Props;
+}
+
+
+// See client_fill_tagstruct in pulsecore/protocol-native.c
+function parseClient(packet: TagStruct): ClientInfo {
+    return {
+        index       : packet.getUInt32(),
+        name        : packet.getString() ?? '',
+        ownerModule : packet.getUInt32(),
+        driver      : packet.getString() ?? '',
+        properties  : packet.getProps()  // client version >= 13
+    }
+}
+
+
+export class GetClientInfo extends SelectByIndex {
+    constructor(index: number) {
+        super(PA_COMMAND.GET_CLIENT_INFO, index);
+    }
+
+    processResponse(packet: TagStruct) {
+        return parseClient(packet);
+    }
+}
+
+
 export class GetClientsList extends Command {
     processResponse(packet: TagStruct) {
-        const rv: Record<string, unknown>[] = [];
-        while (packet.i < packet.body.length) {
-            rv.push({
-                index       : packet.getUInt32(),
-                name        : packet.getString(),
-                ownerModule : packet.getUInt32(),
-                driver      : packet.getString(),
-                properties  : packet.getProps()
-            })
-        }
+        const rv: ClientInfo[] = [];
+        while (packet.i < packet.body.length)
+            rv.push(parseClient(packet));
         return rv;
     }
 }
@@ -943,30 +1136,8 @@ export class GetClientsList extends Command {
 export class GetSinkInputList extends Command {
     processResponse(packet: TagStruct) {
         const rv: Record<string, unknown>[] = [];
-        while (packet.i < packet.body.length) {
-            rv.push({
-                index      : packet.getUInt32(),
-                name       : packet.getString(),
-                module     : packet.getUInt32(),
-                client     : packet.getUInt32(),
-                sink       : packet.getUInt32(),
-                sampleSpec : packet.getSampleSpec(),
-                channelMap : packet.getChannelMap(),
-                volume     : packet.getCvolume(),
-                latency    : {
-                    minimum : packet.getUsec(),
-                    maximum : packet.getUsec()
-                },
-                resampleMethod : packet.getString(),
-                driver         : packet.getString(),
-                muted          : packet.getBool(),
-                properties     : packet.getProps(),
-                corked         : packet.getBool(),
-                hasVolume      : packet.getBool(),
-                writableVolume : packet.getBool(),
-                formatInfo     : packet.getFormatInfo()
-            });
-        }
+        while (packet.i < packet.body.length)
+            rv.push(parseSinkInput(packet));
         return rv;
     }
 }
@@ -1001,3 +1172,538 @@ export class Move extends SelectByIndex {
         }
     }
 }
+
+
+export interface CardProfile {
+    name        : string;
+    description : string;
+    sinks       : number;
+    sources     : number;
+    priority    : number;
+    available   : boolean;
+}
+
+
+export interface CardPort {
+    name              : string;
+    description       : string;
+    priority          : number;
+    available         : PA_PORT_AVAILABLE;
+    direction         : PA_DIRECTION;
+    properties        : Props;
+    profiles          : string[];
+    latencyOffset     : bigint;
+    availabilityGroup : string | null;
+    type              : PA_DEVICE_PORT_TYPE;
+}
+
+
+export interface CardInfo {
+    index         : number;
+    name          : string;
+    module        : number;
+    driver        : string;
+    profiles      : CardProfile[];
+    activeProfile : string | null;
+    properties    : Props;
+    ports         : CardPort[];
+}
+
+
+// See card_fill_tagstruct in pulsecore/protocol-native.c
+function parseCard(packet: TagStruct): CardInfo {
+    const rv: CardInfo = {
+        index         : packet.getUInt32(),
+        name          : packet.getString() ?? '',
+        module        : packet.getUInt32(),
+        driver        : packet.getString() ?? '',
+        profiles      : [],
+        activeProfile : null,
+        properties    : {},
+        ports         : []
+    }
+
+    const profiles = packet.getUInt32();
+    for (let i = 0; i < profiles; i++) {
+        rv.profiles.push({
+            name        : packet.getString() ?? '',
+            description : packet.getString() ?? '',
+            sinks       : packet.getUInt32(),
+            sources     : packet.getUInt32(),
+            priority    : packet.getUInt32(),
+            available   : packet.protocol >= 29 ? packet.getUInt32() !== 0 : true
+        });
+    }
+
+    rv.activeProfile = packet.getString();
+    rv.properties = packet.getProps();
+
+    // Older servers do not report card ports at all
+    if (packet.protocol < 26) return rv;
+
+    const ports = packet.getUInt32();
+    for (let i = 0; i < ports; i++) {
+        const port: CardPort = {
+            name              : packet.getString() ?? '',
+            description       : packet.getString() ?? '',
+            priority          : packet.getUInt32(),
+            available         : packet.getUInt32(),
+            direction         : packet.getUInt8(),
+            properties        : packet.getProps(),
+            profiles          : [],
+            latencyOffset     : BigInt(0),
+            availabilityGroup : null,
+            type              : PA_DEVICE_PORT_TYPE.UNKNOWN
+        }
+
+        const n = packet.getUInt32();
+        for (let j = 0; j < n; j++)
+            port.profiles.push(packet.getString() ?? '');
+
+        if (packet.protocol >= 27) port.latencyOffset = packet.getSInt64();
+
+        if (packet.protocol >= 34) {
+            port.availabilityGroup = packet.getString();
+            port.type = packet.getUInt32();
+        }
+        rv.ports.push(port);
+    }
+
+    return rv;
+}
+
+
+export class GetCardInfo extends SelectByNameOrIndex {
+    constructor(nameOrIndex: number | string) {
+        super(PA_COMMAND.GET_CARD_INFO, nameOrIndex);
+    }
+
+    processResponse(packet: TagStruct) {
+        return parseCard(packet);
+    }
+}
+
+
+export class GetCardInfoList extends Command {
+    constructor() {
+        super(PA_COMMAND.GET_CARD_INFO_LIST);
+    }
+
+    processResponse(packet: TagStruct) {
+        const rv: CardInfo[] = [];
+        while (packet.i < packet.body.length)
+            rv.push(parseCard(packet));
+        return rv;
+    }
+}
+
+
+export class SetCardProfile extends SelectByNameOrIndex {
+    constructor(nameOrIndex: number | string, profile: string) {
+        super(PA_COMMAND.SET_CARD_PROFILE, nameOrIndex);
+
+        if (typeof profile !== 'string' || !profile.length)
+            throw new Error('Profile name must be a non-empty string');
+
+        this.addString(profile);
+    }
+}
+
+
+export class SetPortLatencyOffset extends SelectByNameOrIndex {
+    constructor(card: number | string, port: string, offset: bigint | number) {
+        super(PA_COMMAND.SET_PORT_LATENCY_OFFSET, card);
+
+        if (typeof port !== 'string' || !port.length)
+            throw new Error('Port name must be a non-empty string');
+
+        if (typeof offset === 'number' && !Number.isInteger(offset))
+            throw new Error('Latency offset must be an integer number of microseconds');
+
+        if (typeof offset !== 'number' && typeof offset !== 'bigint')
+            throw new Error('Latency offset must be a number or bigint');
+
+        this.addString(port);
+        this.addSInt64(offset);
+    }
+}
+
+
+export interface ModuleInfo {
+    index      : number;
+    name       : string;
+    argument   : string | null;
+    usage      : number;
+    properties : Props;
+}
+
+
+// See module_fill_tagstruct in pulsecore/protocol-native.c
+function parseModule(packet: TagStruct): ModuleInfo {
+    const rv: ModuleInfo = {
+        index      : packet.getUInt32(),
+        name       : packet.getString() ?? '',
+        argument   : packet.getString(),
+        usage      : packet.getUInt32(),
+        properties : {}
+    }
+
+    // Older servers send the obsolete autoload flag instead of properties
+    if (packet.protocol >= 15) rv.properties = packet.getProps();
+    else packet.getBool();
+    return rv;
+}
+
+
+export class GetModuleInfo extends SelectByIndex {
+    constructor(index: number) {
+        super(PA_COMMAND.GET_MODULE_INFO, index);
+    }
+
+    processResponse(packet: TagStruct) {
+        return parseModule(packet);
+    }
+}
+
+
+export class GetModuleInfoList extends Command {
+    constructor() {
+        super(PA_COMMAND.GET_MODULE_INFO_LIST);
+    }
+
+    processResponse(packet: TagStruct) {
+        const rv: ModuleInfo[] = [];
+        while (packet.i < packet.body.length)
+            rv.push(parseModule(packet));
+        return rv;
+    }
+}
+
+
+export interface SampleInfo {
+    index      : number;
+    name       : string;
+    volume     : number[];
+    duration   : bigint;
+    sampleSpec : SampleSpec;
+    channelMap : number[];
+    bytes      : number;
+    lazy       : boolean;
+    filename   : string | null;
+    properties : Props;
+}
+
+
+// See scache_fill_tagstruct in pulsecore/protocol-native.c
+function parseSample(packet: TagStruct): SampleInfo {
+    return {
+        index      : packet.getUInt32(),
+        name       : packet.getString() ?? '',
+        volume     : packet.getCvolume(),
+        duration   : packet.getUsec(),
+        sampleSpec : packet.getSampleSpec(),
+        channelMap : packet.getChannelMap(),
+        bytes      : packet.getUInt32(),
+        lazy       : packet.getBool(),
+        filename   : packet.getString(),
+        properties : packet.getProps()  // client version >= 13
+    }
+}
+
+
+export class GetSampleInfo extends SelectByNameOrIndex {
+    constructor(nameOrIndex: number | string) {
+        super(PA_COMMAND.GET_SAMPLE_INFO, nameOrIndex);
+    }
+
+    processResponse(packet: TagStruct) {
+        return parseSample(packet);
+    }
+}
+
+
+export class GetSampleInfoList extends Command {
+    constructor() {
+        super(PA_COMMAND.GET_SAMPLE_INFO_LIST);
+    }
+
+    processResponse(packet: TagStruct) {
+        const rv: SampleInfo[] = [];
+        while (packet.i < packet.body.length)
+            rv.push(parseSample(packet));
+        return rv;
+    }
+}
+
+
+export interface TimingInfo {
+    sinkUsec           : bigint;   // Latency of the sink (or of the monitored sink for record streams)
+    sourceUsec         : bigint;   // Latency of the source (always zero for playback streams)
+    transportUsec      : bigint;   // Estimated time it takes to transfer data between the client and the server
+    playing            : boolean;  // Whether the stream is currently playing or recording
+    synchronizedClocks : boolean;  // Whether the server's clock appears to be synchronized with ours
+    timestamp          : bigint;   // Local time (usec since the epoch) at which the values above were valid
+    writeIndex         : bigint;   // Write index of the stream's buffer on the server, in bytes
+    readIndex          : bigint;   // Read index of the stream's buffer on the server, in bytes
+    underrunFor?       : bigint;   // Number of bytes the playback stream has been in underrun state for
+    playingFor?        : bigint;   // Number of bytes the playback stream has been playing for
+}
+
+
+// Obtain the latency and buffer indexes for a playback or record stream. The
+// request carries a local timestamp which the server echoes back together with
+// its own timestamp. The two timestamps are used to estimate the transport
+// latency, see stream_get_timing_info_callback in pulse/stream.c.
+export class GetLatency extends SelectByIndex {
+    sent: bigint;
+
+    constructor(cmd: PA_COMMAND.GET_PLAYBACK_LATENCY | PA_COMMAND.GET_RECORD_LATENCY, index: number) {
+        super(cmd, index);
+        this.sent = gettimeofday();
+        this.addTimeval(this.sent);
+    }
+
+    processResponse(packet: TagStruct): TimingInfo {
+        const received = gettimeofday();
+        const playback = this.type === PA_COMMAND.GET_PLAYBACK_LATENCY;
+
+        const first = packet.getUsec();
+        const second = packet.getUsec();
+        const playing = packet.getBool();
+        packet.getTimeval(); // Our own timestamp, sent back by the server
+        const remote = packet.getTimeval();
+
+        const rv: TimingInfo = {
+            sinkUsec           : first,
+            sourceUsec         : playback ? BigInt(0) : second,
+            transportUsec      : BigInt(0),
+            playing,
+            synchronizedClocks : false,
+            timestamp          : this.sent,
+            writeIndex         : packet.getSInt64(),
+            readIndex          : packet.getSInt64()
+        }
+
+        if (playback) {
+            // client version >= 13
+            rv.underrunFor = packet.getUInt64();
+            rv.playingFor = packet.getUInt64();
+        }
+
+        if (this.sent <= remote && remote <= received) {
+            // The server's clock appears to be synchronized with ours, e.g., we
+            // are running on the same host
+            rv.transportUsec = playback ? remote - this.sent : received - remote;
+            rv.synchronizedClocks = true;
+            rv.timestamp = remote;
+        } else {
+            // The clocks are not synchronized. Assume the transport latency is
+            // the same in both directions.
+            // eslint-disable-next-line no-undef
+            rv.transportUsec = (received - this.sent) / BigInt(2);
+            rv.timestamp = this.sent + rv.transportUsec;
+        }
+
+        return rv;
+    }
+}
+
+
+export interface PlaybackBufferAttr {
+    maximumLength  : number;
+    targetLength   : number;
+    preBuffering   : number;
+    minimumRequest : number;
+}
+
+
+export interface RecordBufferAttr {
+    maximumLength : number;
+    fragmentSize  : number;
+}
+
+
+interface BufferAttrOpts {
+    adjustLatency? : boolean;
+    earlyRequests? : boolean;
+}
+
+
+export class SetPlaybackBufferAttr extends SelectByIndex {
+    constructor(index: number, attr: PlaybackBufferAttr & BufferAttrOpts, protocol = PA_NATIVE_PROTOCOL_VERSION) {
+        super(PA_COMMAND.SET_PLAYBACK_STREAM_BUFFER_ATTR, index);
+        this.addUInt32(attr.maximumLength);
+        this.addUInt32(attr.targetLength);
+        this.addUInt32(attr.preBuffering);
+        this.addUInt32(attr.minimumRequest);
+        this.addBool(attr.adjustLatency ?? false);  // client version >= 13
+        if (protocol >= 14) this.addBool(attr.earlyRequests ?? false);
+        else if (attr.earlyRequests) throw new PulseError(PA_ERR.NOTSUPPORTED);
+    }
+
+    processResponse(packet: TagStruct) {
+        const buffer: PlaybackBufferAttr = {
+            maximumLength  : packet.getUInt32(),
+            targetLength   : packet.getUInt32(),
+            preBuffering   : packet.getUInt32(),
+            minimumRequest : packet.getUInt32()
+        }
+        return {
+            buffer,
+            configuredSinkLatency: packet.getUsec()  // client version >= 13
+        }
+    }
+}
+
+
+export class SetRecordBufferAttr extends SelectByIndex {
+    constructor(index: number, attr: RecordBufferAttr & BufferAttrOpts, protocol = PA_NATIVE_PROTOCOL_VERSION) {
+        super(PA_COMMAND.SET_RECORD_STREAM_BUFFER_ATTR, index);
+        this.addUInt32(attr.maximumLength);
+        this.addUInt32(attr.fragmentSize);
+        this.addBool(attr.adjustLatency ?? false);  // client version >= 13
+        if (protocol >= 14) this.addBool(attr.earlyRequests ?? false);
+        else if (attr.earlyRequests) throw new PulseError(PA_ERR.NOTSUPPORTED);
+    }
+
+    processResponse(packet: TagStruct) {
+        const buffer: RecordBufferAttr = {
+            maximumLength : packet.getUInt32(),
+            fragmentSize  : packet.getUInt32()
+        }
+        return {
+            buffer,
+            configuredSourceLatency: packet.getUsec()  // client version >= 13
+        }
+    }
+}
+
+
+export class UpdateSampleRate extends SelectByIndex {
+    static PA_RATE_MAX = 48000 * 8;
+
+    constructor(cmd: PA_COMMAND.UPDATE_PLAYBACK_STREAM_SAMPLE_RATE | PA_COMMAND.UPDATE_RECORD_STREAM_SAMPLE_RATE, index: number, rate: number) {
+        super(cmd, index);
+
+        if (!Number.isInteger(rate) || rate <= 0 || rate > UpdateSampleRate.PA_RATE_MAX)
+            throw new Error(`Invalid sample rate ${rate}`);
+
+        this.addUInt32(rate);
+    }
+}
+
+
+// Must match pulse/proplist.h
+
+export enum PA_UPDATE {
+    SET,     // Replace the entire property list with the new one
+    MERGE,   // Merge new property list into the existing one, not replacing old entries if the same key is set in both
+    REPLACE  // Merge new property list into the existing one, replacing old entries if the same key is set in both
+}
+
+export type UpdateMode = "set" | "merge" | "replace";
+
+export function updateMode(mode: UpdateMode) {
+    switch (mode) {
+        case 'set'     : return PA_UPDATE.SET;
+        case 'merge'   : return PA_UPDATE.MERGE;
+        case 'replace' : return PA_UPDATE.REPLACE;
+        default: throw new Error(`Unsupported property update mode ${mode}`);
+    }
+}
+
+
+// Property keys to be removed can be given either as an array of flat (dotted)
+// key names, or as a tree of properties in the Props format, in which case the
+// values are ignored.
+function addPropKeys(packet: TagStruct, keys: string[] | Props) {
+    const k = Array.isArray(keys) ? keys : Object.keys(deflate(keys));
+    if (!k.length)
+        throw new Error('At least one property key must be provided');
+
+    for (const key of k) packet.addString(key);
+    packet.addString(null);
+}
+
+
+export class SetStreamName extends SelectByIndex {
+    constructor(cmd: PA_COMMAND.SET_PLAYBACK_STREAM_NAME | PA_COMMAND.SET_RECORD_STREAM_NAME, index: number, name: string) {
+        super(cmd, index);
+
+        if (typeof name !== 'string')
+            throw new Error('Stream name must be a string');
+
+        this.addString(name);
+    }
+}
+
+
+export class UpdateStreamProps extends SelectByIndex {
+    constructor(cmd: PA_COMMAND.UPDATE_PLAYBACK_STREAM_PROPLIST | PA_COMMAND.UPDATE_RECORD_STREAM_PROPLIST, index: number, props: Props, mode: UpdateMode = 'replace') {
+        super(cmd, index);
+        this.addUInt32(updateMode(mode));
+        this.addProps(props);
+    }
+}
+
+
+export class RemoveStreamProps extends SelectByIndex {
+    constructor(cmd: PA_COMMAND.REMOVE_PLAYBACK_STREAM_PROPLIST | PA_COMMAND.REMOVE_RECORD_STREAM_PROPLIST, index: number, keys: string[] | Props) {
+        super(cmd, index);
+        addPropKeys(this, keys);
+    }
+}
+
+
+export class UpdateClientProps extends Command {
+    constructor(props: Props, mode: UpdateMode = 'replace') {
+        super(PA_COMMAND.UPDATE_CLIENT_PROPLIST);
+        this.addUInt32(updateMode(mode));
+        this.addProps(props);
+    }
+}
+
+
+export class RemoveClientProps extends Command {
+    constructor(keys: string[] | Props) {
+        super(PA_COMMAND.REMOVE_CLIENT_PROPLIST);
+        addPropKeys(this, keys);
+    }
+}
+
+
+// Extension commands are addressed to a module, either by the module's index,
+// or by its name. The rest of the payload is specific to the extension, but
+// always begins with a subcommand number.
+export class ExtensionCommand extends SelectByNameOrIndex {
+    constructor(module: number | string, subcommand: number) {
+        super(PA_COMMAND.EXTENSION, module);
+        this.addUInt32(subcommand);
+    }
+}
+
+
+// Send a message to an object registered with the message API on the server,
+// e.g., /core or /card/<card name>/bluez. The parameters can be either a
+// string which is sent as is, or an array of values which are converted into
+// the message parameter syntax.
+
+export class SendObjectMessage extends Command {
+    constructor(path: string, message: string, params?: string | MessageValue[] | null) {
+        super(PA_COMMAND.SEND_OBJECT_MESSAGE);
+
+        if (typeof path !== 'string' || !path.length)
+            throw new Error('Invalid object path');
+
+        if (typeof message !== 'string' || !message.length)
+            throw new Error('Invalid message');
+
+        this.addString(path);
+        this.addString(message);
+        this.addString(Array.isArray(params) ? formatMessageParams(params) : params || null);
+    }
+
+    processResponse(packet: TagStruct): MessageParam[] {
+        return parseMessageParams(packet.getString());
+    }
+}
@@ -0,0 +1,230 @@
+// Copyright (c) 2019-2021 Jan Janak <jan@janakj.org>
+//
+// Permission to use, copy, modify, and/or distribute this software for any
+// purpose with or without fee is hereby granted, provided that the above
+// copyright notice and this permission notice appear in all copies.
+//
+// THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+// WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+// MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR
+// ANY SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+// WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN
+// ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF
+// OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+
+import { homedir, hostname } from 'os';
+import { promises as fs } from 'fs';
+import { join, isAbsolute } from 'path';
+import { logger, PA_NATIVE_COOKIE_LENGTH } from './defs';
+
+const debug = logger.extend('config');
+
+// The location of the system-wide PulseAudio daemon's socket, see
+// PA_SYSTEM_RUNTIME_PATH in the PulseAudio build configuration
+const systemSockPath = '/var/run/pulse/native';
+
+
+export interface ClientConf {
+    defaultServer?        : string;
+    cookieFile?           : string;
+    autoConnectLocalhost? : boolean;
+}
+
+
+export const machineId = async () => (await fs.readFile('/etc/machine-id', 'ascii')).trim();
+
+
+// Return the user's PulseAudio configuration directory, see
+// pa_append_to_config_home_dir in pulsecore/core-util.c
+const configHome = () => join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'pulse');
+
+
+async function readFile(filename: string) {
+    try {
+        return await fs.readFile(filename);
+    } catch (error) {
+        if ((error as any).code === 'ENOENT') return undefined;
+        throw error;
+    }
+}
+
+
+// Parse the contents of a client.conf file. Only the options relevant to this
+// client are returned, everything else is ignored. Must match the parser in
+// pulsecore/conf-parser.c
+export function parseClientConf(data: string) {
+    const conf: ClientConf = {};
+
+    for (let line of data.split('\n')) {
+        line = line.trim();
+        if (!line.length || line[0] === '#' || line[0] === ';' || line[0] === '[') continue;
+
+        const i = line.indexOf('=');
+        if (i === -1) {
+            debug(`Ignoring malformed line '${line}' in client.conf`);
+            continue;
+        }
+
+        const key = line.slice(0, i).trim();
+        const value = line.slice(i + 1).trim();
+
+        switch (key) {
+            case 'default-server':
+                conf.defaultServer = value;
+                break;
+
+            case 'cookie-file':
+                conf.cookieFile = value;
+                break;
+
+            case 'auto-connect-localhost':
+                conf.autoConnectLocalhost = /^(1|y|yes|t|true|on)$/i.test(value);
+                break;
+        }
+    }
+    return conf;
+}
+
+
+// Load client.conf. If the environment variable PULSE_CLIENTCONFIG is set, only
+// the file it points to is loaded. Otherwise, the user's configuration file is
+// loaded if it exists, with a fallback to the system-wide configuration file.
+// Environment variables PULSE_SERVER and PULSE_COOKIE override the
+// corresponding options from the file. See pa_client_conf_load in
+// pulse/client-conf.c
+export async function loadClientConf(): Promise<ClientConf> {
+    const { PULSE_CLIENTCONFIG, PULSE_SERVER, PULSE_COOKIE } = process.env;
+
+    const candidates = PULSE_CLIENTCONFIG
+        ? [PULSE_CLIENTCONFIG]
+        : [join(configHome(), 'client.conf'), join(homedir(), '.pulse', 'client.conf'), '/etc/pulse/client.conf'];
+
+    let conf: ClientConf = {};
+    for (const filename of candidates) {
+        // An unreadable configuration file is skipped just like a missing one
+        let data: Buffer | undefined;
+        try {
+            data = await readFile(filename);
+        } catch (error) {
+            debug(`Could not read '${filename}': ${(error as Error).message}`);
+        }
+        if (data === undefined) continue;
+
+        debug(`Loading client configuration from '${filename}'`);
+        conf = parseClientConf(data.toString());
+        break;
+    }
+
+    if (PULSE_SERVER) conf.defaultServer = PULSE_SERVER;
+    if (PULSE_COOKIE) conf.cookieFile = PULSE_COOKIE;
+    return conf;
+}
+
+
+// Return the directory where the per-user PulseAudio daemon creates its socket,
+// see pa_get_runtime_dir in pulsecore/core-util.c
+async function runtimeDir() {
+    const { PULSE_RUNTIME_PATH, XDG_RUNTIME_DIR } = process.env;
+
+    if (PULSE_RUNTIME_PATH) return PULSE_RUNTIME_PATH;
+    if (XDG_RUNTIME_DIR) return join(XDG_RUNTIME_DIR, 'pulse');
+
+    let id: string;
+    try {
+        id = await machineId();
+    } catch (error) {
+        if ((error as any).code !== 'ENOENT') throw error;
+        id = hostname();
+    }
+    return join(configHome(), `${id}-runtime`);
+}
+
+
+// Return the list of servers to try, in order. An explicitly provided server
+// (or a space-separated list of servers) takes precedence over PULSE_SERVER and
+// default-server from client.conf. If none of those is set, the per-user daemon
+// is tried first, followed by the system-wide daemon, and optionally the daemon
+// on localhost. See pa_context_connect in pulse/context.c
+export async function resolveServers(server?: string, conf?: ClientConf) {
+    if (!conf) conf = await loadClientConf();
+
+    const list = server || conf.defaultServer;
+    if (list) return list.split(/\s+/).filter(s => s.length);
+
+    const rv = [
+        `unix:${join(await runtimeDir(), 'native')}`,
+        `unix:${systemSockPath}`
+    ];
+
+    if (conf.autoConnectLocalhost) rv.push('tcp4:127.0.0.1', 'tcp6:[::1]');
+    return rv;
+}
+
+
+// A server entry prefixed with {<machine id>} or {<hostname>} refers to a local
+// socket that is only usable on the given machine. Return the address without
+// the prefix if the entry is usable on this machine, or null otherwise.
+export async function stripMachinePrefix(server: string) {
+    if (server[0] !== '{') return server;
+
+    const end = server.indexOf('}');
+    if (end === -1) return null;
+
+    const id = server.slice(1, end);
+    let local: string | undefined;
+    try {
+        local = await machineId();
+    } catch (error) {
+        if ((error as any).code !== 'ENOENT') throw error;
+    }
+
+    if (id !== local && id !== hostname()) return null;
+    return server.slice(end + 1);
+}
+
+
+async function loadCookieFile(filename: string) {
+    // Relative paths are relative to the configuration directory, see
+    // normalize_path in pulsecore/authkey.c
+    if (!isAbsolute(filename)) filename = join(configHome(), filename);
+
+    debug(`Trying to load PulseAudio authentication cookie from '${filename}'`);
+    let cookie: Buffer | undefined;
+    try {
+        cookie = await readFile(filename);
+    } catch (error) {
+        // An unreadable cookie file is skipped just like a missing one
+        debug(`Could not read '${filename}': ${(error as Error).message}`);
+        return undefined;
+    }
+
+    if (cookie === undefined) {
+        debug(`PulseAudio cookie file '${filename}' not found`);
+        return undefined;
+    }
+
+    if (cookie.length !== PA_NATIVE_COOKIE_LENGTH) {
+        debug(`PulseAudio cookie file '${filename}' has invalid length ${cookie.length}`);
+        return undefined;
+    }
+    return cookie;
+}
+
+
+// Load the authentication cookie. The file configured via PULSE_COOKIE or
+// cookie-file in client.conf is tried first. If that fails, the default cookie
+// file in the configuration directory and the legacy ~/.pulse-cookie are
+// tried. Returns undefined if no cookie could be loaded. See
+// pa_client_conf_load_cookie in pulse/client-conf.c
+export async function loadCookie(conf?: ClientConf) {
+    if (!conf) conf = await loadClientConf();
+
+    const candidates = [join(configHome(), 'cookie'), join(homedir(), '.pulse-cookie')];
+    if (conf.cookieFile) candidates.unshift(conf.cookieFile);
+
+    for (const filename of candidates) {
+        const cookie = await loadCookieFile(filename);
+        if (cookie) return cookie;
+    }
+    return undefined;
+}
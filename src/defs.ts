@@ -13,7 +13,7 @@
 // OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
 
 import debug from 'debug';
-import { homedir } from 'os';
+import { performance } from 'perf_hooks';
 
 export const logger = debug('pa');
 
@@ -27,11 +27,22 @@ export const PA_NO_TAG = PA_NO_VALUE;
 
 export const PA_NATIVE_COOKIE_LENGTH = 256;
 
-// The minimal PulseAudio native protocol version required by this client.
-export const PA_NATIVE_PROTOCOL_VERSION = 32;
+// The TCP port used by module-native-protocol-tcp by default
+export const PA_NATIVE_DEFAULT_PORT = 4713;
 
-export const defaultSockPath = `/run/user/${process.getuid()}/pulse/native`;
-export const cookieFile = `${homedir()}/.config/pulse/cookie`;
+// The newest PulseAudio native protocol version implemented by this client.
+// The client and the server use the lower of the two versions they support.
+export const PA_NATIVE_PROTOCOL_VERSION = 35;
+
+// The oldest PulseAudio native protocol version supported by this client
+// (PulseAudio 0.9.11)
+export const PA_MIN_PROTOCOL_VERSION = 13;
+
+// Return the current wall clock time in microseconds since the epoch. Used to
+// timestamp latency requests, see pa_gettimeofday in pulse/timeval.c
+export const gettimeofday = () =>
+    // eslint-disable-next-line no-undef
+    BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000));
 
 // Must match pulse/def.h
 
@@ -77,3 +88,58 @@ export enum PA_SAMPLE_FORMAT {
     S24_32LE,  // Signed 24 Bit PCM in LSB of 32 Bit words, little endian (PC). \since 0.9.15
     S24_32BE   // Signed 24 Bit PCM in LSB of 32 Bit words, big endian. \since 0.9.15
 }
+
+
+// Must match pulse/def.h
+
+export enum PA_PORT_AVAILABLE {
+    UNKNOWN, // This port does not support jack detection \since 2.0
+    NO,      // This port is not available, likely because the jack is not plugged in. \since 2.0
+    YES      // This port is available, likely because the jack is plugged in. \since 2.0
+}
+
+
+export enum PA_DIRECTION {
+    OUTPUT = 0x01, // Output direction
+    INPUT  = 0x02  // Input direction
+}
+
+
+export enum PA_DEVICE_PORT_TYPE {
+    UNKNOWN,
+    AUX,
+    SPEAKER,
+    HEADPHONES,
+    LINE,
+    MIC,
+    HEADSET,
+    HANDSET,
+    EARPIECE,
+    SPDIF,
+    HDMI,
+    TV,
+    RADIO,
+    VIDEO,
+    USB,
+    BLUETOOTH,
+    PORTABLE,
+    HANDSFREE,
+    CAR,
+    HIFI,
+    PHONE,
+    NETWORK,
+    ANALOG
+}
+
+
+export enum PA_ENCODING {
+    ANY,                // Any encoding format, PCM or compressed
+    PCM,                // Any PCM format
+    AC3_IEC61937,       // AC3 data encapsulated in IEC 61937 header/padding
+    EAC3_IEC61937,      // EAC3 data encapsulated in IEC 61937 header/padding
+    MPEG_IEC61937,      // MPEG-1 or MPEG-2 (Part 3, not AAC) data encapsulated in IEC 61937 header/padding
+    DTS_IEC61937,       // DTS data encapsulated in IEC 61937 header/padding
+    MPEG2_AAC_IEC61937, // MPEG-2 AAC data encapsulated in IEC 61937 header/padding. \since 4.0
+    TRUEHD_IEC61937,    // Dolby TrueHD data encapsulated in IEC 61937 header/padding. \since 13.0
+    DTSHD_IEC61937      // DTS-HD Master Audio encapsulated in IEC 61937 header/padding. \since 13.0
+}
@@ -83,8 +83,10 @@ const paErrorToStr = {
 
 export class PulseError extends Error {
     code: number;
-    constructor(packet: TagStruct) {
-        const code = packet.getUInt32() as PA_ERR;
+    constructor(packetOrCode: TagStruct | PA_ERR) {
+        // The error code is either parsed from an error packet sent by the
+        // server, or given directly when the client detects an error itself.
+        const code = typeof packetOrCode === 'number' ? packetOrCode : packetOrCode.getUInt32() as PA_ERR;
         super(paErrorToStr[code] || `Uknown Pulseaudio error code ${code}`);
         this.code = code;
     }
@@ -13,7 +13,7 @@
 // OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
 
 import { TagStruct } from './packet';
-import { PA_NO_TAG } from './defs';
+import { PA_NO_TAG, PA_NATIVE_PROTOCOL_VERSION } from './defs';
 import { Props } from './props';
 import { PA_COMMAND } from './command';
 
@@ -92,8 +92,9 @@ function eventFacility(event: number): EventFacility {
 export class Event extends TagStruct {
     type: PA_COMMAND | string;
 
-    constructor(header: Buffer | null, body: Buffer | null) {
+    constructor(header: Buffer | null, body: Buffer | null, protocol = PA_NATIVE_PROTOCOL_VERSION) {
         super(header, body);
+        this.protocol = protocol;
         this.type = this.getUInt32();
 
         const tag = this.getUInt32();
@@ -150,8 +151,8 @@ export class StreamEvent extends Event {
         suspended : boolean;
     }
 
-    constructor(header: Buffer | null, body: Buffer | null) {
-        super(header, body);
+    constructor(header: Buffer | null, body: Buffer | null, protocol = PA_NATIVE_PROTOCOL_VERSION) {
+        super(header, body, protocol);
         this.index = this.getUInt32();
 
         switch (this.type) {
@@ -183,14 +184,17 @@ export class StreamEvent extends Event {
 
             case PA_COMMAND.RECORD_STREAM_MOVED:
                 this.parseDestination();
-                this.buffer = {
-                    maximumLength: this.getUInt32(),
-                    fragmentSize: this.getUInt32()
-                }
+                this.parseRecordBuffer();
                 this.configuredSourceLatency = this.getUsec();
                 this.type = 'moved';
                 break;
 
+            case PA_COMMAND.RECORD_BUFFER_ATTR_CHANGED:
+                this.parseRecordBuffer();
+                this.configuredSourceLatency = this.getUsec();
+                this.type = 'buffer';
+                break;
+
             case PA_COMMAND.PLAYBACK_STREAM_KILLED:
             case PA_COMMAND.RECORD_STREAM_KILLED:
                 this.type = 'killed';
@@ -210,7 +214,8 @@ export class StreamEvent extends Event {
                 break;
 
             case PA_COMMAND.UNDERFLOW:
-                this.offset = this.getSInt64();
+                // client version >= 23
+                if (this.protocol >= 23) this.offset = this.getSInt64();
                 this.type = 'underflow';
                 break;
 
@@ -228,6 +233,13 @@ export class StreamEvent extends Event {
         }
     }
 
+    parseRecordBuffer() {
+        this.buffer = {
+            maximumLength : this.getUInt32(),
+            fragmentSize  : this.getUInt32()
+        }
+    }
+
     parseDestination() {
         this.destination = {
             index     : this.getUInt32(),
@@ -236,3 +248,39 @@ export class StreamEvent extends Event {
         }
     }
 }
+
+
+// An event sent by a module extension. Only the module's index and name are
+// parsed here; the rest of the packet is parsed by the corresponding extension.
+export class ExtensionEvent extends Event {
+    module : number;
+    name   : string | null;
+
+    constructor(header: Buffer | null, body: Buffer | null) {
+        super(header, body);
+
+        if (this.type !== PA_COMMAND.EXTENSION)
+            throw new Error(`Extension event has the wrong type ${this.type} (expected PA_COMMAND.EXTENSION)`);
+
+        this.module = this.getUInt32();
+        this.name = this.getString();
+    }
+}
+
+
+// A generic event sent by the server to the client. The meaning of the event
+// name and properties is defined by the server module that sent the event.
+export class ClientEvent extends Event {
+    event      : string | null;
+    properties : Props;
+
+    constructor(header: Buffer | null, body: Buffer | null) {
+        super(header, body);
+
+        if (this.type !== PA_COMMAND.CLIENT_EVENT)
+            throw new Error(`Client event has the wrong type ${this.type} (expected PA_COMMAND.CLIENT_EVENT)`);
+
+        this.event = this.getString();
+        this.properties = this.getProps();
+    }
+}
@@ -0,0 +1,397 @@
+// Copyright (c) 2019-2021 Jan Janak <jan@janakj.org>
+//
+// Permission to use, copy, modify, and/or distribute this software for any
+// purpose with or without fee is hereby granted, provided that the above
+// copyright notice and this permission notice appear in all copies.
+//
+// THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+// WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+// MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR
+// ANY SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+// WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN
+// ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF
+// OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+
+import { logger, PA_ENCODING } from './defs';
+import { TagStruct } from './packet';
+import { Props } from './props';
+import { ExtensionCommand, UpdateMode, updateMode } from './command';
+import type { PulseAudio, RequestOptions } from './client';
+
+const debug = logger.extend('ext');
+
+
+// The base class for clients of PulseAudio module extensions. Extensions are
+// reached via PA_COMMAND.EXTENSION packets addressed to the module by name.
+// Each extension has its own set of subcommands. Extensions that support
+// subscriptions send PA_COMMAND.EXTENSION packets to the client when something
+// changes. Those are emitted as 'extension.<name>' events on the PulseAudio
+// object, where <name> is the module name without the 'module-' prefix.
+
+// The TEST subcommand is the first subcommand of every extension
+const EXTENSION_TEST = 0;
+
+export abstract class Extension {
+    pa         : PulseAudio;
+    module     : string;
+    subscribed : boolean;
+    event      : number;
+
+    // The event argument is the extension's subcommand number used in event
+    // packets sent by the server
+    constructor(pulseaudio: PulseAudio, module: string, event: number) {
+        this.pa = pulseaudio;
+        this.module = module;
+        this.subscribed = false;
+        this.event = event;
+    }
+
+    get eventName() {
+        return `extension.${this.module.replace(/^module-/, '')}`;
+    }
+
+    async _invoke(cmd: ExtensionCommand, options: RequestOptions = {}) {
+        this.pa._requireProtocol(14);
+        return this.pa._invoke(cmd, options);
+    }
+
+    _command(subcommand: number) {
+        return new ExtensionCommand(this.module, subcommand);
+    }
+
+    async _subscribe(subcommand: number, enable: boolean, options: RequestOptions = {}) {
+        const c = this._command(subcommand);
+        c.addBool(enable);
+        await this._invoke(c, options);
+        this.subscribed = enable;
+    }
+
+    // Return the version of the extension. Fails with PA_ERR.NOEXTENSION if the
+    // module is not loaded.
+    async test(options: RequestOptions = {}) {
+        const res = await this._invoke(this._command(EXTENSION_TEST), options);
+        return res.getUInt32();
+    }
+
+    // Enable or disable event notifications from the extension. Also invoked by
+    // the PulseAudio object to restore the subscription after reconnect.
+    abstract subscribe(enable?: boolean, options?: RequestOptions): Promise<void>;
+
+    // Invoked by the PulseAudio object for each event packet sent by the
+    // extension. The packet's read index points to the subcommand number.
+    _onEvent(packet: TagStruct) {
+        const subcommand = packet.getUInt32();
+        if (subcommand !== this.event) {
+            debug(`Unsupported ${this.module} subcommand ${subcommand}`);
+            return;
+        }
+
+        this.pa.emit(this.eventName, ...this._parseEvent(packet));
+    }
+
+    // Return the arguments for the event listeners, parsed from the rest of the
+    // event packet. Most extensions send events without any payload.
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _parseEvent(packet: TagStruct): unknown[] {
+        return [];
+    }
+}
+
+
+// Must match pulse/ext-stream-restore.c
+
+enum STREAM_RESTORE {
+    TEST,
+    READ,
+    WRITE,
+    DELETE,
+    SUBSCRIBE,
+    EVENT
+}
+
+
+export interface StreamRestoreEntry {
+    name       : string;         // Identifier string of the stream, e.g., sink-input-by-media-role:music
+    channelMap : number[];       // The channel map of the volume field, empty if no volume is stored
+    volume     : number[];       // The volume of the stream, empty if no volume is stored
+    device     : string | null;  // The sink/source name the stream should be routed to, null if not stored
+    muted      : boolean;        // The boolean mute state of the stream
+}
+
+
+// A client for module-stream-restore which remembers volume, mute state, and
+// device of streams, keyed by application or media role.
+
+export class StreamRestore extends Extension {
+    constructor(pulseaudio: PulseAudio) {
+        super(pulseaudio, 'module-stream-restore', STREAM_RESTORE.EVENT);
+    }
+
+    async read(options: RequestOptions = {}) {
+        const res = await this._invoke(this._command(STREAM_RESTORE.READ), options);
+        const rv: StreamRestoreEntry[] = [];
+        while (res.i < res.body.length) {
+            rv.push({
+                name       : res.getString() ?? '',
+                channelMap : res.getChannelMap(),
+                volume     : res.getCvolume(),
+                device     : res.getString(),
+                muted      : res.getBool()
+            });
+        }
+        return rv;
+    }
+
+    // Store the given entries. In 'set' mode, all existing entries are deleted
+    // first. In 'merge' mode, existing entries are kept. In 'replace' mode,
+    // existing entries are overwritten. If applyImmediately is true, the entries
+    // are also applied to existing streams.
+    async write(entries: StreamRestoreEntry[], mode: UpdateMode = 'replace', applyImmediately = false, options: RequestOptions = {}) {
+        const c = this._command(STREAM_RESTORE.WRITE);
+        c.addUInt32(updateMode(mode));
+        c.addBool(applyImmediately);
+
+        for (const e of entries) {
+            if (typeof e.name !== 'string' || !e.name.length)
+                throw new Error('Stream restore entry name must be a non-empty string');
+
+            if (e.volume.length && e.volume.length !== e.channelMap.length)
+                throw new Error(`Volume and channel map of entry ${e.name} have different numbers of channels`);
+
+            c.addString(e.name);
+            c.addChannelMap(e.volume.length ? e.channelMap : []);
+            c.addCvolume(e.volume);
+            c.addString(e.device);
+            c.addBool(e.muted);
+        }
+
+        await this._invoke(c, options);
+    }
+
+    async delete(names: string | string[], options: RequestOptions = {}) {
+        const c = this._command(STREAM_RESTORE.DELETE);
+        for (const name of Array.isArray(names) ? names : [names]) c.addString(name);
+        await this._invoke(c, options);
+    }
+
+    // Enable or disable change notifications. Once enabled, an event is
+    // emitted on the PulseAudio object whenever the stream-restore database
+    // changes.
+    async subscribe(enable = true, options: RequestOptions = {}) {
+        await this._subscribe(STREAM_RESTORE.SUBSCRIBE, enable, options);
+    }
+}
+
+
+// Must match pulse/ext-device-manager.c
+
+enum DEVICE_MANAGER {
+    TEST,
+    READ,
+    RENAME,
+    DELETE,
+    ROLE_DEVICE_PRIORITY_ROUTING,
+    REORDER,
+    SUBSCRIBE,
+    EVENT
+}
+
+
+export interface DeviceManagerEntry {
+    name           : string;                      // Identifier of the device, e.g., sink:alsa_output.usb-Headset-00.analog-stereo
+    description    : string | null;               // Human-readable description of the device
+    icon           : string | null;               // Icon name of the device
+    index          : number;                      // Index of the sink or source, PA_NO_INDEX if the device is not present
+    rolePriorities : { [role: string]: number };  // Priority of the device for each media.role
+}
+
+
+// A client for module-device-manager which keeps track of all devices ever
+// seen, together with per-role device priority lists. With role-based routing
+// enabled, new streams with a media.role property are routed to the device
+// with the highest priority for that role.
+
+export class DeviceManager extends Extension {
+    constructor(pulseaudio: PulseAudio) {
+        super(pulseaudio, 'module-device-manager', DEVICE_MANAGER.EVENT);
+    }
+
+    async read(options: RequestOptions = {}) {
+        const res = await this._invoke(this._command(DEVICE_MANAGER.READ), options);
+        const rv: DeviceManagerEntry[] = [];
+        while (res.i < res.body.length) {
+            const entry: DeviceManagerEntry = {
+                name           : res.getString() ?? '',
+                description    : res.getString(),
+                icon           : res.getString(),
+                index          : res.getUInt32(),
+                rolePriorities : {}
+            }
+
+            const n = res.getUInt32();
+            for (let i = 0; i < n; i++) {
+                const role = res.getString() ?? '';
+                entry.rolePriorities[role] = res.getUInt32();
+            }
+
+            rv.push(entry);
+        }
+        return rv;
+    }
+
+    async rename(device: string, description: string, options: RequestOptions = {}) {
+        if (typeof device !== 'string' || !device.length)
+            throw new Error('Device name must be a non-empty string');
+
+        if (typeof description !== 'string' || !description.length)
+            throw new Error('Device description must be a non-empty string');
+
+        const c = this._command(DEVICE_MANAGER.RENAME);
+        c.addString(device);
+        c.addString(description);
+        await this._invoke(c, options);
+    }
+
+    async delete(devices: string | string[], options: RequestOptions = {}) {
+        const c = this._command(DEVICE_MANAGER.DELETE);
+        for (const device of Array.isArray(devices) ? devices : [devices]) c.addString(device);
+        await this._invoke(c, options);
+    }
+
+    async enableRoleDevicePriorityRouting(enable = true, options: RequestOptions = {}) {
+        const c = this._command(DEVICE_MANAGER.ROLE_DEVICE_PRIORITY_ROUTING);
+        c.addBool(enable);
+        await this._invoke(c, options);
+    }
+
+    // Set the priority list of devices for the given media.role, e.g., 'phone'.
+    // The first device in the list gets the highest priority. Devices not in
+    // the list keep their relative order after the listed devices.
+    async reorder(role: string, devices: string[], options: RequestOptions = {}) {
+        if (typeof role !== 'string' || !role.length)
+            throw new Error('Role must be a non-empty string');
+
+        if (!devices.length)
+            throw new Error('At least one device must be provided');
+
+        const c = this._command(DEVICE_MANAGER.REORDER);
+        c.addString(role);
+        c.addUInt32(devices.length);
+        for (const device of devices) c.addString(device);
+        await this._invoke(c, options);
+    }
+
+    // Enable or disable change notifications. Once enabled, an event is
+    // emitted on the PulseAudio object whenever the device database changes.
+    async subscribe(enable = true, options: RequestOptions = {}) {
+        await this._subscribe(DEVICE_MANAGER.SUBSCRIBE, enable, options);
+    }
+}
+
+
+// Must match pulse/ext-device-restore.c
+
+enum DEVICE_RESTORE {
+    TEST,
+    SUBSCRIBE,
+    EVENT,
+    READ_FORMATS_ALL,
+    READ_FORMATS,
+    SAVE_FORMATS
+}
+
+
+// Must match pulse/def.h
+
+enum PA_DEVICE_TYPE {
+    SINK,
+    SOURCE
+}
+
+
+export interface FormatInfo {
+    encoding   : PA_ENCODING;
+    properties : Props;
+}
+
+
+export interface DeviceRestoreEntry {
+    type    : "sink" | "source";
+    index   : number;
+    formats : FormatInfo[];
+}
+
+
+// A client for module-device-restore. Besides volume and mute state, the
+// module remembers the formats supported by the hardware connected to sinks
+// with the PA_SINK_FLAGS.SET_FORMATS flag, e.g., an HDMI receiver capable of
+// AC3 or DTS passthrough.
+
+export class DeviceRestore extends Extension {
+    constructor(pulseaudio: PulseAudio) {
+        super(pulseaudio, 'module-device-restore', DEVICE_RESTORE.EVENT);
+    }
+
+    // Enable or disable change notifications. Once enabled, an event with the
+    // type and index of the device is emitted on the PulseAudio object whenever
+    // the saved state of a device changes.
+    async subscribe(enable = true, options: RequestOptions = {}) {
+        await this._subscribe(DEVICE_RESTORE.SUBSCRIBE, enable, options);
+    }
+
+    static parseFormats(packet: TagStruct) {
+        const rv: DeviceRestoreEntry[] = [];
+        while (packet.i < packet.body.length) {
+            const entry: DeviceRestoreEntry = {
+                type    : packet.getUInt32() === PA_DEVICE_TYPE.SINK ? 'sink' : 'source',
+                index   : packet.getUInt32(),
+                formats : []
+            }
+
+            const n = packet.getUInt8();
+            for (let i = 0; i < n; i++)
+                entry.formats.push(packet.getFormatInfo());
+
+            rv.push(entry);
+        }
+        return rv;
+    }
+
+    async readAllFormats(options: RequestOptions = {}) {
+        const res = await this._invoke(this._command(DEVICE_RESTORE.READ_FORMATS_ALL), options);
+        return DeviceRestore.parseFormats(res);
+    }
+
+    async readFormats(sink: string | number, options: RequestOptions = {}) {
+        const c = this._command(DEVICE_RESTORE.READ_FORMATS);
+        c.addUInt32(PA_DEVICE_TYPE.SINK);
+        c.addUInt32(typeof sink === 'string' ? await this.pa.lookupSink(sink, options) : sink);
+        const [entry] = DeviceRestore.parseFormats(await this._invoke(c, options));
+        return entry ? entry.formats : [];
+    }
+
+    // Save the list of formats supported by the hardware connected to the sink.
+    // Each format is either an encoding, or an [encoding, properties] pair,
+    // e.g., [PA_ENCODING.AC3_IEC61937, PA_ENCODING.PCM].
+    async saveFormats(sink: string | number, formats: (PA_ENCODING | [PA_ENCODING, Props])[], options: RequestOptions = {}) {
+        if (formats.length > 255)
+            throw new Error(`Too many formats: ${formats.length}`);
+
+        const c = this._command(DEVICE_RESTORE.SAVE_FORMATS);
+        c.addUInt32(PA_DEVICE_TYPE.SINK);
+        c.addUInt32(typeof sink === 'string' ? await this.pa.lookupSink(sink, options) : sink);
+        c.addUInt8(formats.length);
+        for (const fmt of formats) {
+            if (Array.isArray(fmt)) c.addFormatInfo(fmt[0], fmt[1]);
+            else c.addFormatInfo(fmt);
+        }
+        await this._invoke(c, options);
+    }
+
+    // Events carry the type and index of the device whose state has changed
+    _parseEvent(packet: TagStruct) {
+        const type = packet.getUInt32() === PA_DEVICE_TYPE.SINK ? 'sink' : 'source';
+        const index = packet.getUInt32();
+        return [{ type, index }];
+    }
+}
@@ -24,10 +24,31 @@ export {
     PA_NATIVE_COOKIE_LENGTH,
     PA_SINK_FLAGS,
     PA_SOURCE_FLAGS,
-    PA_SAMPLE_FORMAT
+    PA_SAMPLE_FORMAT,
+    PA_PORT_AVAILABLE,
+    PA_DIRECTION,
+    PA_DEVICE_PORT_TYPE,
+    PA_ENCODING
 } from './defs';
 
+export {
+    ServerInfo,
+    ServerStatistics,
+    ClientInfo,
+    CardInfo,
+    CardProfile,
+    CardPort,
+    ModuleInfo,
+    SampleInfo,
+    TimingInfo,
+    PlaybackBufferAttr,
+    RecordBufferAttr,
+    UpdateMode
+} from './command';
+
 export * from './error';
+export * from './extension';
+export * from './message';
 
 export {
     PlaybackStream,
@@ -35,5 +56,6 @@ export {
     RecordStream,
     sampleSize,
     frameSize,
+    bytesToUsec,
     sampleFormatStr
 } from './stream';
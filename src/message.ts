@@ -0,0 +1,111 @@
+// Copyright (c) 2019-2021 Jan Janak <jan@janakj.org>
+//
+// Permission to use, copy, modify, and/or distribute this software for any
+// purpose with or without fee is hereby granted, provided that the above
+// copyright notice and this permission notice appear in all copies.
+//
+// THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+// WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+// MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR
+// ANY SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+// WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN
+// ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF
+// OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+
+export type MessageParam = string | MessageParam[];
+
+export type MessageValue = string | number | boolean | MessageValue[];
+
+
+// Parameters and responses of the object message API use a simple syntax
+// where each element is enclosed in curly braces and lists are elements that
+// contain other elements. Curly braces and backslashes within strings are
+// escaped with a backslash. For example, the response to the list-handlers
+// message sent to /core looks like this:
+//
+// {{{/core}{Core message handler}}{{/card/bluez_card.00_11_22_33_44_55/bluez}{Bluetooth codec message handler}}}
+//
+// which is parsed into
+//
+// [
+//     [
+//         ["/core", "Core message handler"],
+//         ["/card/bluez_card.00_11_22_33_44_55/bluez", "Bluetooth codec message handler"]
+//     ]
+// ]
+//
+// The syntax carries no type information, so all values are returned as
+// strings and it is up to the caller to convert numbers or booleans.
+//
+// Must match pulse/message-params.c
+
+
+function parseElements(str: string, i: number): [MessageParam[], number] {
+    const rv: MessageParam[] = [];
+
+    for (; ;) {
+        while (i < str.length && /\s/.test(str[i])) i++;
+        if (i >= str.length || str[i] === '}') return [rv, i];
+
+        if (str[i] !== '{')
+            throw new Error(`Unexpected character '${str[i]}' at position ${i} in message parameters`);
+        i++;
+
+        let j = i;
+        while (j < str.length && /\s/.test(str[j])) j++;
+
+        if (str[j] === '{') {
+            // The element is a list of other elements
+            let list: MessageParam[];
+            [list, i] = parseElements(str, j);
+            rv.push(list);
+        } else {
+            // The element is a string
+            let value = '';
+            for (; i < str.length && str[i] !== '}'; i++) {
+                if (str[i] === '{')
+                    throw new Error(`Unescaped '{' at position ${i} in message parameters`);
+                if (str[i] === '\\') i++;
+                if (i < str.length) value += str[i];
+            }
+            rv.push(value);
+        }
+
+        if (str[i] !== '}')
+            throw new Error('Unterminated element in message parameters');
+        i++;
+    }
+}
+
+
+export function parseMessageParams(str: string | null): MessageParam[] {
+    if (str === null) return [];
+
+    const [rv, i] = parseElements(str, 0);
+    if (i !== str.length)
+        throw new Error(`Unexpected '}' at position ${i} in message parameters`);
+    return rv;
+}
+
+
+function formatValue(value: MessageValue): string {
+    switch (typeof value) {
+        case 'string':
+            return value.replace(/[{}\\]/g, '\\$&');
+
+        case 'number':
+        case 'boolean':
+            return `${value}`;
+
+        default:
+            if (Array.isArray(value)) return formatMessageParams(value);
+            throw new Error(`Unsupported message parameter type ${typeof value}`);
+    }
+}
+
+
+// Convert an array of values into the message parameter syntax. Nested arrays
+// become lists.
+export function formatMessageParams(values: MessageValue[]) {
+    return values.map(v => `{${formatValue(v)}}`).join('');
+}
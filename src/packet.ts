@@ -12,7 +12,7 @@
 // ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF
 // OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
 
-import { PA_MAX_CHANNELS, PA_SAMPLE_FORMAT } from './defs';
+import { PA_MAX_CHANNELS, PA_SAMPLE_FORMAT, PA_NATIVE_PROTOCOL_VERSION } from './defs';
 import { FlatProps, Props, inflate, deflate } from './props';
 
 // A fixed-size descriptor that must be transmitted at the beginning of each
@@ -131,8 +131,12 @@ export enum PA_TAG {
 
 export class TagStruct extends Packet {
     static FRAGMENT_SIZE = 64;
-    body : Buffer;
-    i    : number;
+    body     : Buffer;
+    i        : number;
+
+    // The native protocol version negotiated with the server. Determines which
+    // fields are present in packets received from the server.
+    protocol : number;
 
     constructor(header?: Buffer | null, body? : Buffer | null) {
         super(header);
@@ -149,6 +153,7 @@ export class TagStruct extends Packet {
 
         // Read and write index into the buffer.
         this.i = 0;
+        this.protocol = PA_NATIVE_PROTOCOL_VERSION;
     }
 
     alloc(wanted: number) {
@@ -218,6 +223,13 @@ export class TagStruct extends Packet {
         return rv;
     }
 
+    addSInt64(value: number | bigint) {
+        this.alloc(9);
+        this.body[this.i++] = PA_TAG.S64;
+        // eslint-disable-next-line no-undef
+        this.i = this.body.writeBigInt64BE(BigInt(value), this.i);
+    }
+
     getSInt64() {
         this.assert(9);
         if (this.body[this.i] !== PA_TAG.S64)
@@ -232,11 +244,35 @@ export class TagStruct extends Packet {
         if (this.body[this.i] !== PA_TAG.USEC)
             throw new Error(`Invalid tag ${this.body[this.i]}, expected PA_TAG.USEC`);
         this.i++;
-        const rv = this.body.readBigInt64BE();
+        const rv = this.body.readBigUInt64BE(this.i);
         this.i += 8;
         return rv;
     }
 
+    // Timeval values are represented as the number of microseconds since the
+    // epoch, but are transmitted as separate seconds and microseconds.
+    addTimeval(usec: bigint) {
+        this.alloc(9);
+        this.body[this.i++] = PA_TAG.TIMEVAL;
+        // eslint-disable-next-line no-undef
+        const M = BigInt(1000000);
+        this.i = this.body.writeUInt32BE(Number(usec / M), this.i);
+        this.i = this.body.writeUInt32BE(Number(usec % M), this.i);
+    }
+
+    getTimeval() {
+        this.assert(9);
+        if (this.body[this.i] !== PA_TAG.TIMEVAL)
+            throw new Error(`Invalid tag ${this.body[this.i]}, expected PA_TAG.TIMEVAL`);
+        // eslint-disable-next-line no-undef
+        const sec = BigInt(this.body.readUInt32BE(this.i + 1));
+        // eslint-disable-next-line no-undef
+        const usec = BigInt(this.body.readUInt32BE(this.i + 5));
+        this.i += 9;
+        // eslint-disable-next-line no-undef
+        return sec * BigInt(1000000) + usec;
+    }
+
     static stringLength(value: string | null) {
         if (value === null) return 1;
         return 2 + Buffer.byteLength(value);
@@ -14,12 +14,13 @@
 
 import { Writable, Readable } from 'stream';
 
-import { PA_ERR } from './error';
-import { MemoryBlock } from './packet';
-import { logger, PA_NO_VALUE, PA_NO_INDEX, PA_SAMPLE_FORMAT } from './defs';
-import { PA_COMMAND, SelectByIndex } from './command';
-import type { PulseAudio } from './client';
+import { PA_ERR, PulseError } from './error';
+import { MemoryBlock, SampleSpec } from './packet';
+import { logger, PA_NO_VALUE, PA_NO_INDEX, PA_SAMPLE_FORMAT, gettimeofday } from './defs';
+import { PA_COMMAND, Command, SelectByIndex, CreatePlaybackStream, CreateRecordStream, Cork, GetLatency, TimingInfo, SetPlaybackBufferAttr, SetRecordBufferAttr, PlaybackBufferAttr, RecordBufferAttr, UpdateSampleRate, SetStreamName, UpdateStreamProps, RemoveStreamProps, UpdateMode } from './command';
+import type { PulseAudio, RequestOptions } from './client';
 import { StreamEvent } from './event';
+import { Props } from './props';
 
 
 export const sampleSize = {
@@ -79,6 +80,42 @@ export function frameSize({ format, channels }: { format: PA_SAMPLE_FORMAT, chan
 }
 
 
+export function bytesToUsec(bytes: bigint | number, spec: SampleSpec) {
+    // eslint-disable-next-line no-undef
+    return BigInt(bytes) * BigInt(1000000) / BigInt(frameSize(spec) * spec.rate);
+}
+
+
+// Estimate the current playback (or recording) time of a stream from the most
+// recent timing info obtained from the server. If the stream is running, the
+// time that has passed since the timing info was obtained is added to the
+// result. See pa_stream_get_time in pulse/stream.c.
+function streamTime(playback: boolean, timing: TimingInfo, spec: SampleSpec, corked: boolean) {
+    // eslint-disable-next-line no-undef
+    const zero = BigInt(0);
+    let usec;
+
+    if (playback) {
+        // The last byte that was written into the output device
+        usec = bytesToUsec(timing.readIndex < zero ? zero : timing.readIndex, spec);
+        if (!corked) usec += timing.transportUsec;
+    } else {
+        // The last byte that was written into the server's queue
+        usec = bytesToUsec(timing.writeIndex < zero ? zero : timing.writeIndex, spec);
+        if (!corked) usec += timing.transportUsec + timing.sourceUsec;
+    }
+
+    // The output device (or the monitored sink) maintains its own buffer, so
+    // the sample being played (recorded) right now is a little behind
+    if (!corked) usec = usec > timing.sinkUsec ? usec - timing.sinkUsec : zero;
+
+    if (!corked && timing.playing)
+        usec += gettimeofday() - timing.timestamp;
+
+    return usec;
+}
+
+
 export class PlaybackStream extends Writable {
     pa              : PulseAudio;
     dbg             : debug.Debugger;
@@ -87,7 +124,19 @@ export class PlaybackStream extends Writable {
     step            : number;
     left            : number;
     requestedBytes  : number;
+    corked          : boolean;
+    sampleSpec      : SampleSpec;
+    buffer?         : PlaybackBufferAttr;
+    configuredSinkLatency? : bigint;
+    written         : number;
+    timing?         : TimingInfo;
+    previousTime    : bigint;
     callback?       : () => void;
+    pendingLength   : number;
+    discard         : number;
+    createOptions?  : any;
+    detached        : boolean;
+    dead            : boolean;
 
     constructor(pulseaudio: PulseAudio, args: any) {
         // Must set emitClose since the PulseAudio object listens for it
@@ -95,6 +144,14 @@ export class PlaybackStream extends Writable {
         this.pa = pulseaudio;
         //this.index = PA_NO_INDEX
         this.requestedBytes = 0;
+        this.corked = false;
+        this.detached = false;
+        this.dead = false;
+
+        // The size of the chunk whose write callback is being held, and the
+        // number of bytes still buffered by Writable to be dropped after flush
+        this.pendingLength = 0;
+        this.discard = 0;
         this.index = PA_NO_INDEX;
 
         Object.assign(this, args);
@@ -104,6 +161,13 @@ export class PlaybackStream extends Writable {
 
         this.dbg = logger.extend(`playback:${this.index}`);
         this.queue = [];
+        this.sampleSpec = args.sampleSpec;
+
+        // The total number of bytes sent to the server. Used to keep the write
+        // index in timing info up to date between queries.
+        this.written = 0;
+        // eslint-disable-next-line no-undef
+        this.previousTime = BigInt(0);
 
         // We need to make sure that the data we send to PulseAudio server is
         // aligned at frame boundary.
@@ -114,6 +178,14 @@ export class PlaybackStream extends Writable {
         this.left = args.maximumLength;
     }
 
+    // Send a request concerning this stream. The stream's index is only valid
+    // on the connection the stream was created on, so fail if that connection
+    // is gone.
+    async _invoke(cmd: Command, options: RequestOptions = {}) {
+        if (this.dead || this.detached) throw new Error('Stream is not connected to PulseAudio');
+        return this.pa._invoke(cmd, options);
+    }
+
     _onEvent(event: StreamEvent) {
         if (event.type === 'request') {
             if (typeof event.requestedBytes !== 'number')
@@ -124,6 +196,13 @@ export class PlaybackStream extends Writable {
             return;
         }
 
+        // Keep the buffer attributes up to date if the server changes them, e.g.,
+        // when the stream is moved to another sink
+        if (event.type === 'buffer' || event.type === 'moved') {
+            this.buffer = event.buffer as PlaybackBufferAttr;
+            this.configuredSinkLatency = event.configuredSinkLatency;
+        }
+
         this.dbg(`${event.type}`);
         this.emit(event.type as string, event);
         if (event.type === 'event')
@@ -138,6 +217,9 @@ export class PlaybackStream extends Writable {
     _enqueued = () => this.queue.reduce((a, v) => a + v.length, 0);
 
     _wakeup() {
+        // Never send data with the index of a stream from a closed connection
+        if (this.dead) return;
+
         // Calculate how much data we can really send. We cannot send more than
         // this.requestedBytes and have to make sure that all frames we send are
         // complete, i.e., we have to align at the frame byte boundary. Note that
@@ -163,6 +245,9 @@ export class PlaybackStream extends Writable {
             const packet = new MemoryBlock(this.index, data);
             packet.finalize().forEach(c => this.pa.sock.write(c));
             this.requestedBytes -= alignedLength;
+            this.written += alignedLength;
+            // eslint-disable-next-line no-undef
+            if (this.timing) this.timing.writeIndex += BigInt(alignedLength);
             if (this.left !== null) this.left -= alignedLength;
         }
 
@@ -183,6 +268,13 @@ export class PlaybackStream extends Writable {
     }
 
     _write(data: Buffer, encoding: any, next: (error?: Error) => void) {
+        // Drop data that was written before the stream was flushed
+        if (this.discard > 0) {
+            this.discard -= data.length;
+            next();
+            return;
+        }
+
         if (this.left !== null && (this._enqueued() + data.length > this.left)) {
             next(new Error('Maximum number of bytes for the stream reached'));
             return;
@@ -192,14 +284,210 @@ export class PlaybackStream extends Writable {
         if (typeof this.callback !== 'undefined')
             throw new Error('Bug: Already have a stored callback');
         this.callback = next;
+        this.pendingLength = data.length;
+        this._wakeup();
+    }
+
+    // Pause the playback by corking the stream on the server. The server stops
+    // requesting data, so anything written to a paused stream stays in the
+    // local queue until the stream is resumed.
+    async pause(options: RequestOptions = {}) {
+        await this._invoke(new Cork(PA_COMMAND.CORK_PLAYBACK_STREAM, this.index, true), options);
+        this.corked = true;
+        this.dbg('paused');
+        await this._updateTimingInfo(options);
+    }
+
+    async resume(options: RequestOptions = {}) {
+        await this._invoke(new Cork(PA_COMMAND.CORK_PLAYBACK_STREAM, this.index, false), options);
+        this.corked = false;
+        this.dbg('resumed');
+        await this._updateTimingInfo(options);
+    }
+
+    // Drop all data that has not been played yet, both from the local queue and
+    // from the server's buffer. This is what a media player needs to do when
+    // seeking. Data written to the stream after flush is called is played. The
+    // server will ask for new data with subsequent requests, so requestedBytes
+    // needs no adjustment here.
+    async flush(options: RequestOptions = {}) {
+        // Send the request first, so that nothing written before the flush can
+        // reach the server after it
+        const flushed = this._invoke(new SelectByIndex(PA_COMMAND.FLUSH_PLAYBACK_STREAM, this.index), options);
+
+        // Drop the local queue as well as the chunks still buffered by Writable.
+        // Those are passed to _write as soon as the pending write completes, so
+        // count their bytes for _write to discard.
+        this.queue = [];
+        this.discard = this.writableLength;
+        if (this.callback) {
+            const next = this.callback;
+            delete this.callback;
+            this.discard -= this.pendingLength;
+            next();
+        }
+
+        await flushed;
+        this.dbg('flushed');
+
+        // Flushing moves the playback position, possibly backwards
+        // eslint-disable-next-line no-undef
+        this.previousTime = BigInt(0);
+        await this._updateTimingInfo(options);
+    }
+
+    // Start the playback immediately, even if the server has not received
+    // enough data to fill its prebuffer yet. Send whatever we have in the queue
+    // first so that it gets played too.
+    async trigger(options: RequestOptions = {}) {
+        this._wakeup();
+        await this._invoke(new SelectByIndex(PA_COMMAND.TRIGGER_PLAYBACK_STREAM, this.index), options);
+        this.dbg('triggered');
+        await this._updateTimingInfo(options);
+    }
+
+    // Stop the playback and put the stream back into prebuffering state. The
+    // playback starts again once the server's prebuffer fills up, or when the
+    // stream is triggered.
+    async prebuffer(options: RequestOptions = {}) {
+        await this._invoke(new SelectByIndex(PA_COMMAND.PREBUF_PLAYBACK_STREAM, this.index), options);
+        this.dbg('prebuffering');
+        await this._updateTimingInfo(options);
+    }
+
+    // Change the buffer attributes of the stream. Attributes not present in the
+    // argument keep their current values. Set an attribute to PA_NO_VALUE to let
+    // the server choose. Resolves with the attributes granted by the server.
+    async setBufferAttributes(attrs: Partial<PlaybackBufferAttr> & { adjustLatency?: boolean, earlyRequests?: boolean } = {}, options: RequestOptions = {}) {
+        const c = new SetPlaybackBufferAttr(this.index, {
+            maximumLength  : PA_NO_VALUE,
+            targetLength   : PA_NO_VALUE,
+            preBuffering   : PA_NO_VALUE,
+            minimumRequest : PA_NO_VALUE,
+            ...this.buffer,
+            ...attrs
+        }, this.pa.protocol);
+        const { buffer, configuredSinkLatency } = c.processResponse(await this._invoke(c, options));
+        this.buffer = buffer;
+        this.configuredSinkLatency = configuredSinkLatency;
+        this.dbg('buffer attributes changed');
+        return buffer;
+    }
+
+    // Change the sample rate of a stream created with the variableRate option.
+    // The server fails with PA_ERR.BADSTATE if the option was not set. Byte to
+    // time conversions use the new rate from now on.
+    async updateSampleRate(rate: number, options: RequestOptions = {}) {
+        await this._invoke(new UpdateSampleRate(PA_COMMAND.UPDATE_PLAYBACK_STREAM_SAMPLE_RATE, this.index, rate), options);
+        this.sampleSpec = { ...this.sampleSpec, rate };
+        this.dbg(`sample rate changed to ${rate}`);
+        await this._updateTimingInfo(options);
+    }
+
+    async setName(name: string, options: RequestOptions = {}) {
+        await this._invoke(new SetStreamName(PA_COMMAND.SET_PLAYBACK_STREAM_NAME, this.index, name), options);
+    }
+
+    async updateProperties(props: Props, mode: UpdateMode = 'replace', options: RequestOptions = {}) {
+        await this._invoke(new UpdateStreamProps(PA_COMMAND.UPDATE_PLAYBACK_STREAM_PROPLIST, this.index, props, mode), options);
+    }
+
+    async removeProperties(keys: string[] | Props, options: RequestOptions = {}) {
+        await this._invoke(new RemoveStreamProps(PA_COMMAND.REMOVE_PLAYBACK_STREAM_PROPLIST, this.index, keys), options);
+    }
+
+    // Obtain latency and buffer indexes from the server. The result is also
+    // stored in the timing property, to be used by getTime and getLatency.
+    async getTimingInfo(options: RequestOptions = {}) {
+        const c = new GetLatency(PA_COMMAND.GET_PLAYBACK_LATENCY, this.index);
+        const written = this.written;
+        const timing = c.processResponse(await this._invoke(c, options));
+
+        // Data sent to the server after the request is not included in the
+        // write index reported by the server
+        // eslint-disable-next-line no-undef
+        timing.writeIndex += BigInt(this.written - written);
+        this.timing = timing;
+        return timing;
+    }
+
+    // The timing info becomes stale after the state of the stream has been
+    // changed on the server. Refresh it if the application uses it.
+    async _updateTimingInfo(options: RequestOptions = {}) {
+        if (this.timing) await this.getTimingInfo(options);
+    }
+
+    // Return the current playback position in microseconds, interpolated from
+    // the most recent timing info. The returned value never runs backwards
+    // unless the stream is flushed. Fails with PA_ERR.NODATA if getTimingInfo
+    // has not been called yet.
+    getTime() {
+        if (!this.timing) throw new PulseError(PA_ERR.NODATA);
+
+        const usec = streamTime(true, this.timing, this.sampleSpec, this.corked);
+        if (usec < this.previousTime) return this.previousTime;
+        this.previousTime = usec;
+        return usec;
+    }
+
+    // Return the time in microseconds it will take for the data written to the
+    // stream right now to be played. The result is negative if the stream has
+    // run out of data.
+    getLatency() {
+        const time = this.getTime();
+        return bytesToUsec(this.timing!.writeIndex, this.sampleSpec) - time;
+    }
+
+    // Invoked by the PulseAudio object when the connection to the server has been
+    // lost but the stream is going to be re-created after reconnect. Data
+    // written in the meantime stays in the local queue. The stream's index is
+    // not valid on the new connection, so no requests are sent until the stream
+    // has been re-created.
+    _detach() {
+        this.detached = true;
+        this.requestedBytes = 0;
+        delete this.timing;
+    }
+
+    // Create a new stream on the server with the options this stream was
+    // originally created with and bind this object to it. The server starts
+    // requesting data right away, so the local queue is sent first.
+    async _recreate() {
+        const c = new CreatePlaybackStream({ ...this.createOptions, corked: this.corked }, PA_COMMAND.CREATE_PLAYBACK_STREAM, this.pa.protocol);
+        Object.assign(this, c.parseResponse(await this.pa._invoke(c)));
+        this.detached = false;
+
+        // The stream may have been destroyed while waiting for the server
+        if (this.destroyed) {
+            await this.pa._invoke(new SelectByIndex(PA_COMMAND.DELETE_PLAYBACK_STREAM, this.index));
+            return;
+        }
+
+        this.dbg = logger.extend(`playback:${this.index}`);
+        this.step = frameSize(this.sampleSpec);
+        this.written = 0;
+        // eslint-disable-next-line no-undef
+        this.previousTime = BigInt(0);
+        this.pa.streams.playback[this.index] = this;
+        this.dbg('re-created');
         this._wakeup();
     }
 
     async _final(done: (error?: Error) => void, cmd = PA_COMMAND.DRAIN_PLAYBACK_STREAM) {
-        // Wait for all data to be played out or written to sample cache
+        // A detached stream has nothing to drain on the server. Data left in the
+        // local queue is dropped.
+        if (this.detached || this.dead) {
+            this.pa._forget(this);
+            done();
+            return;
+        }
+
+        // Wait for all data to be played out or written to sample cache. Give up
+        // after the client's drain timeout so that a hung server cannot block
+        // the stream forever.
         try {
             this.dbg('draining...');
-            await this.pa._invoke(new SelectByIndex(cmd, this.index));
+            await this.pa._invoke(new SelectByIndex(cmd, this.index), { timeout: this.pa.drainTimeout });
             this.dbg(`drained`);
         } catch (error) {
             this.dbg(`drain error: ${error}`);
@@ -214,7 +502,10 @@ export class PlaybackStream extends Writable {
         // out (drained)
         try {
             this.dbg(`destroying...`);
-            await this.pa._invoke(new SelectByIndex(cmd, this.index));
+            // There is nothing to delete on the server if the connection is gone,
+            // or if the stream has not been re-created after reconnect yet
+            if (this.detached) this.pa._forget(this);
+            else if (this.pa.sock && !this.dead) await this.pa._invoke(new SelectByIndex(cmd, this.index));
         } catch (error) {
             // For some reason, older PulseAudio versions return the wrong error code PA_ERR_EXIST
             // when the stream being deleted does not exist, so we need to check both
@@ -254,12 +545,24 @@ export class RecordStream extends Readable {
     _running      : boolean;
     left          : number | null;
     maximumLength : number;
+    corked        : boolean;
+    sampleSpec    : SampleSpec;
+    buffer?       : RecordBufferAttr;
+    configuredSourceLatency? : bigint;
+    timing?       : TimingInfo;
+    previousTime  : bigint;
+    createOptions? : any;
+    detached      : boolean;
+    dead          : boolean;
 
     constructor(pulseaudio: PulseAudio, args: any) {
         super({ autoDestroy: true });
         this.pa = pulseaudio;
         this.index = PA_NO_INDEX;
         this.maximumLength = PA_NO_VALUE;
+        this.corked = false;
+        this.detached = false;
+        this.dead = false;
         Object.assign(this, args);
 
         if (this.index === PA_NO_INDEX)
@@ -267,10 +570,26 @@ export class RecordStream extends Readable {
 
         this.dbg = logger.extend(`record:${this.index}`);
         this._running = false;
+        this.sampleSpec = args.sampleSpec;
+        // eslint-disable-next-line no-undef
+        this.previousTime = BigInt(0);
         this.left = this.maximumLength !== PA_NO_VALUE ? this.maximumLength : null;
     }
 
+    // Send a request concerning this stream. The stream's index is only valid
+    // on the connection the stream was created on, so fail if that connection
+    // is gone.
+    async _invoke(cmd: Command, options: RequestOptions = {}) {
+        if (this.dead || this.detached) throw new Error('Stream is not connected to PulseAudio');
+        return this.pa._invoke(cmd, options);
+    }
+
     _onEvent(event: StreamEvent) {
+        if (event.type === 'buffer' || event.type === 'moved') {
+            this.buffer = event.buffer as RecordBufferAttr;
+            this.configuredSourceLatency = event.configuredSourceLatency;
+        }
+
         this.dbg(`${event.type}`);
         this.emit(event.type as string, event);
         if (event.type === 'event')
@@ -283,6 +602,11 @@ export class RecordStream extends Readable {
     }
 
     _onData(packet: MemoryBlock) {
+        // The read index in timing info obtained from the server does not
+        // include data that arrives after the reply
+        // eslint-disable-next-line no-undef
+        if (this.timing) this.timing.readIndex += BigInt(packet.body[0].length);
+
         if (!this._running) return;
 
         // MemoryBlock objects received from PulseAudio will always have exactly one
@@ -313,11 +637,137 @@ export class RecordStream extends Readable {
         this._running = true;
     }
 
+    // Stop (cork) or restart (uncork) the recording on the server. Note that
+    // pause and resume cannot be used for this purpose since those are part of
+    // the Readable API and only control the flow of data to the consumer.
+    async cork(options: RequestOptions = {}) {
+        await this._invoke(new Cork(PA_COMMAND.CORK_RECORD_STREAM, this.index, true), options);
+        this.corked = true;
+        this.dbg('corked');
+        await this._updateTimingInfo(options);
+    }
+
+    async uncork(options: RequestOptions = {}) {
+        await this._invoke(new Cork(PA_COMMAND.CORK_RECORD_STREAM, this.index, false), options);
+        this.corked = false;
+        this.dbg('uncorked');
+        await this._updateTimingInfo(options);
+    }
+
+    // Drop all recorded data buffered on the server that has not been sent to
+    // the client yet
+    async flush(options: RequestOptions = {}) {
+        await this._invoke(new SelectByIndex(PA_COMMAND.FLUSH_RECORD_STREAM, this.index), options);
+        this.dbg('flushed');
+        await this._updateTimingInfo(options);
+    }
+
+    // Change the buffer attributes of the stream. Attributes not present in the
+    // argument keep their current values. Set an attribute to PA_NO_VALUE to let
+    // the server choose. Resolves with the attributes granted by the server.
+    async setBufferAttributes(attrs: Partial<RecordBufferAttr> & { adjustLatency?: boolean, earlyRequests?: boolean } = {}, options: RequestOptions = {}) {
+        const c = new SetRecordBufferAttr(this.index, {
+            maximumLength : PA_NO_VALUE,
+            fragmentSize  : PA_NO_VALUE,
+            ...this.buffer,
+            ...attrs
+        }, this.pa.protocol);
+        const { buffer, configuredSourceLatency } = c.processResponse(await this._invoke(c, options));
+        this.buffer = buffer;
+        this.configuredSourceLatency = configuredSourceLatency;
+        this.dbg('buffer attributes changed');
+        return buffer;
+    }
+
+    // Change the sample rate of a stream created with the variableRate option.
+    // The server fails with PA_ERR.BADSTATE if the option was not set. Byte to
+    // time conversions use the new rate from now on.
+    async updateSampleRate(rate: number, options: RequestOptions = {}) {
+        await this._invoke(new UpdateSampleRate(PA_COMMAND.UPDATE_RECORD_STREAM_SAMPLE_RATE, this.index, rate), options);
+        this.sampleSpec = { ...this.sampleSpec, rate };
+        this.dbg(`sample rate changed to ${rate}`);
+        await this._updateTimingInfo(options);
+    }
+
+    async setName(name: string, options: RequestOptions = {}) {
+        await this._invoke(new SetStreamName(PA_COMMAND.SET_RECORD_STREAM_NAME, this.index, name), options);
+    }
+
+    async updateProperties(props: Props, mode: UpdateMode = 'replace', options: RequestOptions = {}) {
+        await this._invoke(new UpdateStreamProps(PA_COMMAND.UPDATE_RECORD_STREAM_PROPLIST, this.index, props, mode), options);
+    }
+
+    async removeProperties(keys: string[] | Props, options: RequestOptions = {}) {
+        await this._invoke(new RemoveStreamProps(PA_COMMAND.REMOVE_RECORD_STREAM_PROPLIST, this.index, keys), options);
+    }
+
+    // Obtain latency and buffer indexes from the server. The result is also
+    // stored in the timing property, to be used by getTime and getLatency.
+    async getTimingInfo(options: RequestOptions = {}) {
+        const c = new GetLatency(PA_COMMAND.GET_RECORD_LATENCY, this.index);
+        this.timing = c.processResponse(await this._invoke(c, options));
+        return this.timing;
+    }
+
+    async _updateTimingInfo(options: RequestOptions = {}) {
+        if (this.timing) await this.getTimingInfo(options);
+    }
+
+    // Return the current recording position in microseconds, interpolated from
+    // the most recent timing info. The returned value never runs backwards.
+    // Fails with PA_ERR.NODATA if getTimingInfo has not been called yet.
+    getTime() {
+        if (!this.timing) throw new PulseError(PA_ERR.NODATA);
+
+        const usec = streamTime(false, this.timing, this.sampleSpec, this.corked);
+        if (usec < this.previousTime) return this.previousTime;
+        this.previousTime = usec;
+        return usec;
+    }
+
+    // Return the time in microseconds between the moment a sample was recorded
+    // and the moment it is read from the stream
+    getLatency() {
+        const time = this.getTime();
+        return time - bytesToUsec(this.timing!.readIndex, this.sampleSpec);
+    }
+
+    // Invoked by the PulseAudio object when the connection to the server has been
+    // lost but the stream is going to be re-created after reconnect. No requests
+    // are sent until the stream has been re-created.
+    _detach() {
+        this.detached = true;
+        delete this.timing;
+    }
+
+    // Create a new stream on the server with the options this stream was
+    // originally created with and bind this object to it
+    async _recreate() {
+        const c = new CreateRecordStream({ ...this.createOptions, corked: this.corked }, this.pa.protocol);
+        Object.assign(this, c.parseResponse(await this.pa._invoke(c)));
+        this.detached = false;
+
+        // The stream may have been destroyed while waiting for the server
+        if (this.destroyed) {
+            await this.pa._invoke(new SelectByIndex(PA_COMMAND.DELETE_RECORD_STREAM, this.index));
+            return;
+        }
+
+        this.dbg = logger.extend(`record:${this.index}`);
+        // eslint-disable-next-line no-undef
+        this.previousTime = BigInt(0);
+        this.pa.streams.record[this.index] = this;
+        this.dbg('re-created');
+    }
+
     async _destroy(err: Error, callback: (error: Error) => void) {
         this._running = false;
         this.dbg(`destroying...`);
         try {
-            await this.pa._invoke(new SelectByIndex(PA_COMMAND.DELETE_RECORD_STREAM, this.index));
+            // There is nothing to delete on the server if the connection is gone,
+            // or if the stream has not been re-created after reconnect yet
+            if (this.detached) this.pa._forget(this);
+            else if (this.pa.sock && !this.dead) await this.pa._invoke(new SelectByIndex(PA_COMMAND.DELETE_RECORD_STREAM, this.index));
         } catch (error) {
             // For some reason, PulseAudio returns the wrong error code PA_ERR_EXIST
             // when the stream being deleted does not exist, so we need to check both